@@ -18,6 +18,7 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 interface GoldenTestAssertions {
   result_not_empty?: boolean;
   text_contains?: string[];
+  text_not_contains?: string[];
   any_result_contains?: string[];
   fields_present?: string[];
   text_not_empty?: boolean;
@@ -201,6 +202,16 @@ describe(`Contract tests: ${fixture.mcp_name}`, () => {
         }
       }
 
+      if (test.assertions.text_not_contains) {
+        for (const needle of test.assertions.text_not_contains) {
+          it(`result does not contain text "${needle}"`, async () => {
+            result ??= await callTool(mcpClient, test.tool, test.input);
+            const haystack = stringifyData(result.data).toLowerCase();
+            expect(haystack).not.toContain(needle.toLowerCase());
+          });
+        }
+      }
+
       if (test.assertions.any_result_contains) {
         for (const needle of test.assertions.any_result_contains) {
           it(`any result item contains "${needle}"`, async () => {
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { parseActContent } from '../../scripts/lib/parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// The shipped seeds were fetched before schedules were parsed and carry none,
+// so schedule parsing is checked against a GhanaLII-shaped page instead.
+const html = readFileSync(join(__dirname, '../../fixtures/akn/schedule-act.html'), 'utf-8');
+const act = parseActContent(html, 2024, 9999, 'Example Fees Act, 2024');
+const provision = (ref: string) => act.provisions.find(p => p.provision_ref === ref);
+
+describe('Schedule parsing', () => {
+  it('stores the First Schedule as sch1 with its heading and text', () => {
+    const sch1 = provision('sch1');
+    expect(sch1?.title).toBe('FIRST SCHEDULE — Fees');
+    expect(sch1?.content).toContain('Registration | 500');
+  });
+
+  it('keeps the sch1 fee table as structured rows', () => {
+    expect(provision('sch1')?.metadata).toEqual({
+      tables: [{ header: ['Service', 'Fee (GH¢)'], rows: [['Registration', '500'], ['Renewal', '250']] }],
+    });
+  });
+
+  it('stores numbered schedule paragraphs as sch2-paraN', () => {
+    expect(provision('sch2-para2')?.content).toBe('2. Two other persons appointed by the Minister.');
+  });
+
+  it('leaves the body sections in place before the schedules', () => {
+    expect(act.provisions.map(p => p.provision_ref)).toEqual(['s1', 's2', 'sch1', 'sch2', 'sch2-para1', 'sch2-para2']);
+  });
+});
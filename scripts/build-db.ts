@@ -11,12 +11,24 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { resolveActNumber, resolveDocumentId, resolveInstrumentNumber } from '../src/utils/statute-id.js';
+import { encodeVector, vectorTerms, weightTerms } from '../src/utils/term-vectors.js';
+import { titleTrigrams, trigrams } from '../src/utils/trigram.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
+/** Curated amendments; the leading underscore keeps it out of the document seed loop. */
+const AMENDMENTS_SEED_PATH = path.join(SEED_DIR, '_amendments.json');
+/** Curated enabling Acts for instruments whose seeds lack the enacting formula */
+const ENABLING_AUTHORITIES_SEED_PATH = path.join(SEED_DIR, '_enabling_authorities.json');
+// Curated search synonyms, spelling variants and acronyms
+const THESAURUS_SEED_PATH = path.join(SEED_DIR, '_thesaurus.json');
+/** Judgments written by `npm run ingest:cases` */
+const CASE_SEED_DIR = path.join(SEED_DIR, 'case-law');
+const PREP_SEED_DIR = path.join(SEED_DIR, 'preparatory-works');
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Seed file types
@@ -24,7 +36,9 @@ const DB_PATH = path.resolve(__dirname, '../data/database.db');
 
 interface DocumentSeed {
   id: string;
-  type: 'act' | 'legislative_instrument' | 'constitutional_instrument' | 'executive_instrument';
+  type:
+    | 'act' | 'legislative_instrument' | 'constitutional_instrument' | 'executive_instrument'
+    | 'constituent_assembly_act' | 'nlc_decree' | 'nrc_decree' | 'smc_decree' | 'afrc_decree' | 'pndc_law';
   title: string;
   short_name?: string;
   act_number?: number;
@@ -33,10 +47,19 @@ interface DocumentSeed {
   issued_date?: string;
   in_force_date?: string;
   url?: string;
+  /** GhanaLII expression date (eng@DATE) of the text in `provisions`. */
+  expression_date?: string;
   provisions?: ProvisionSeed[];
+  /** Older points in time, fetched with `npm run ingest -- --versions`. */
+  historical_versions?: VersionSeed[];
   definitions?: DefinitionSeed[];
 }
 
+interface VersionSeed {
+  expression_date: string;
+  provisions: ProvisionSeed[];
+}
+
 interface ProvisionSeed {
   provision_ref: string;
   part?: string;
@@ -45,6 +68,15 @@ interface ProvisionSeed {
   title?: string;
   content: string;
   metadata?: Record<string, unknown>;
+  /** Subsection/paragraph tree from the AKN markup; derived from "(1) ... (2)" markers when absent. */
+  children?: ProvisionUnitSeed[];
+}
+
+interface ProvisionUnitSeed {
+  level: 'subsection' | 'paragraph' | 'subparagraph';
+  num: string;
+  content: string;
+  children?: ProvisionUnitSeed[];
 }
 
 interface DefinitionSeed {
@@ -53,6 +85,15 @@ interface DefinitionSeed {
   source_provision?: string;
 }
 
+interface ProvisionVersionRow {
+  provision: ProvisionSeed;
+  /** Position in the expression the text comes from */
+  ordinal: number;
+  expression_date: string;
+  valid_from: string;
+  valid_to: string | null;
+}
+
 interface ProvisionDedupStats {
   duplicate_refs: number;
   conflicting_duplicates: number;
@@ -74,6 +115,88 @@ interface ExtractedEUReference {
   referenceType: EUReferenceType;
 }
 
+type CrossReferenceType = 'internal' | 'external';
+
+/** A Ghanaian enactment cited in statute text, e.g. "Companies Act, 2019 (Act 992)". */
+interface CitedInstrument {
+  series: string | null;
+  number: number | null;
+  year: number | null;
+  title: string | null;
+}
+
+interface ExtractedCrossReference {
+  referenceType: CrossReferenceType;
+  targetSection: string | null;
+  cited: CitedInstrument | null;
+  citation: string;
+  context: string;
+}
+
+type AmendmentKind = 'insertion' | 'substitution' | 'repeal' | 'amendment';
+
+/**
+ * An amendment found in statute text. 'amends': operative text of the amending
+ * enactment ("section 5 of Act 672 is amended by ..."); 'amended_by': an
+ * editorial note in the amended text ("[section 27 repealed by section 3 of Act 1045 of 2020]").
+ */
+interface ExtractedAmendment {
+  direction: 'amends' | 'amended_by';
+  cited: CitedInstrument;
+  kind: AmendmentKind;
+  /** Affected section numbers or, failing those, the part named ("Part II"); empty means the whole enactment. */
+  sections: string[];
+  citation: string;
+}
+
+/** An enabling Act named in an instrument's enacting formula, with the sections relied on. */
+interface AmendmentSeed {
+  amending_document_id: string;
+  amended_document_id: string;
+  kind: AmendmentKind;
+  affected_provisions?: string[];
+  effective_date?: string;
+  citation?: string;
+}
+
+interface EnablingAuthoritySeed {
+  instrument_id: string;
+  enabling_document_id: string;
+  enabling_provisions?: string[];
+  citation?: string;
+}
+
+interface ThesaurusGroupSeed {
+  kind: 'spelling' | 'equivalent' | 'acronym';
+  terms: string[];
+}
+
+interface CaseSeed {
+  id: string;
+  court: 'GHASC' | 'GHACA' | 'GHAHC';
+  neutral_citation: string;
+  case_number?: string;
+  title: string;
+  parties?: string[];
+  judges?: string[];
+  decision_date?: string;
+  url?: string;
+  summary?: string;
+  content: string;
+}
+
+interface PreparatoryWorkSeed {
+  id: string;
+  type: 'memorandum' | 'hansard' | 'committee_report' | 'bill';
+  title: string;
+  act: string;
+  bill?: string;
+  date?: string;
+  url?: string;
+  source_file?: string;
+  content: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Database schema
 // ─────────────────────────────────────────────────────────────────────────────
@@ -82,7 +205,10 @@ const SCHEMA = `
 -- Legal documents (acts, legislative instruments, etc.)
 CREATE TABLE legal_documents (
   id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK(type IN ('act', 'legislative_instrument', 'constitutional_instrument', 'executive_instrument')),
+  type TEXT NOT NULL CHECK(type IN (
+    'act', 'legislative_instrument', 'constitutional_instrument', 'executive_instrument',
+    'constituent_assembly_act', 'nlc_decree', 'nrc_decree', 'smc_decree', 'afrc_decree', 'pndc_law'
+  )),
   title TEXT NOT NULL,
   short_name TEXT,
   act_number INTEGER,
@@ -92,13 +218,16 @@ CREATE TABLE legal_documents (
   issued_date TEXT,
   in_force_date TEXT,
   url TEXT,
+  expression_date TEXT,
   last_updated TEXT DEFAULT (datetime('now'))
 );
 
 CREATE INDEX idx_documents_year ON legal_documents(year);
 CREATE INDEX idx_documents_act_number ON legal_documents(act_number);
 
--- Individual provisions from statutes
+-- Individual provisions from statutes. ordinal is the 1-based position in
+-- document order: sections by number, then schedules and their paragraphs,
+-- sorted at build time whatever order the seed lists them in.
 CREATE TABLE legal_provisions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -109,12 +238,74 @@ CREATE TABLE legal_provisions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
+  ordinal INTEGER NOT NULL,
   UNIQUE(document_id, provision_ref)
 );
 
-CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
+CREATE INDEX idx_provisions_doc ON legal_provisions(document_id, ordinal);
 CREATE INDEX idx_provisions_section ON legal_provisions(document_id, section);
 
+-- Subsections, paragraphs and subparagraphs of a provision. provision_ref is the
+-- full pinpoint ("s1(2)(a)"); parent_id is NULL for units directly under the section.
+CREATE TABLE provision_units (
+  id INTEGER PRIMARY KEY,
+  provision_id INTEGER NOT NULL REFERENCES legal_provisions(id),
+  parent_id INTEGER REFERENCES provision_units(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  level TEXT NOT NULL CHECK(level IN ('subsection', 'paragraph', 'subparagraph')),
+  num TEXT NOT NULL,
+  content TEXT NOT NULL,
+  UNIQUE(document_id, provision_ref)
+);
+
+CREATE INDEX idx_provision_units_provision ON provision_units(provision_id);
+CREATE INDEX idx_provision_units_parent ON provision_units(parent_id);
+
+-- TF-IDF vectors of current provision text for find_similar_provisions.
+-- vector packs (term id, weight) pairs; see src/utils/term-vectors.ts.
+CREATE TABLE vector_terms (
+  id INTEGER PRIMARY KEY,
+  term TEXT NOT NULL UNIQUE,
+  idf REAL NOT NULL
+);
+
+-- Query expansions from data/seed/_thesaurus.json, one row per direction;
+-- term and equivalent are lower case
+CREATE TABLE thesaurus (
+  term TEXT NOT NULL,
+  equivalent TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('spelling', 'equivalent', 'acronym')),
+  PRIMARY KEY (term, equivalent)
+);
+
+-- Trigram indexes for misspelled queries and titles (src/utils/trigram.ts).
+-- search_vocabulary holds every word of provision text with the number of
+-- provisions using it.
+CREATE TABLE search_vocabulary (
+  id INTEGER PRIMARY KEY,
+  term TEXT NOT NULL UNIQUE,
+  frequency INTEGER NOT NULL
+);
+
+CREATE TABLE vocabulary_trigrams (
+  trigram TEXT NOT NULL,
+  term_id INTEGER NOT NULL REFERENCES search_vocabulary(id),
+  PRIMARY KEY (trigram, term_id)
+) WITHOUT ROWID;
+
+CREATE TABLE title_trigrams (
+  trigram TEXT NOT NULL,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  PRIMARY KEY (trigram, document_id)
+) WITHOUT ROWID;
+
+CREATE TABLE provision_vectors (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  vector BLOB NOT NULL
+);
+
 -- FTS5 for provision search
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
@@ -123,14 +314,26 @@ CREATE VIRTUAL TABLE provisions_fts USING fts5(
   tokenize='unicode61'
 );
 
+-- Porter-stemmed twin: "penalties" matches "penalty", "governed" matches "governs"
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title,
+  content='legal_provisions',
+  content_rowid='id',
+  tokenize='porter unicode61'
+);
+
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
   INSERT INTO provisions_fts(rowid, content, title)
   VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
 END;
 
 CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
   INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
   VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
 END;
 
 CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
@@ -138,20 +341,221 @@ CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
   VALUES ('delete', old.id, old.content, old.title);
   INSERT INTO provisions_fts(rowid, content, title)
   VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+-- Point-in-time provision versions (one row per provision per expression period).
+-- Left empty unless some document has more than one expression: a single
+-- expression would only duplicate legal_provisions and its FTS indexes.
+CREATE TABLE provision_versions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  part TEXT,
+  chapter TEXT,
+  section TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  ordinal INTEGER NOT NULL,
+  expression_date TEXT NOT NULL,
+  valid_from TEXT NOT NULL,
+  valid_to TEXT,
+  UNIQUE(document_id, provision_ref, valid_from)
+);
+
+CREATE INDEX idx_provision_versions_lookup ON provision_versions(document_id, provision_ref, valid_from);
+
+-- FTS5 for point-in-time search
+CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
+  content, title,
+  content='provision_versions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+-- Porter-stemmed twin of provision_versions_fts
+CREATE VIRTUAL TABLE provision_versions_stem_fts USING fts5(
+  content, title,
+  content='provision_versions',
+  content_rowid='id',
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER provision_versions_ai AFTER INSERT ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+CREATE TRIGGER provision_versions_ad AFTER DELETE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_stem_fts(provision_versions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+END;
+
+CREATE TRIGGER provision_versions_au AFTER UPDATE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_stem_fts(provision_versions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
 END;
 
 -- Cross-references between provisions/documents
 CREATE TABLE cross_references (
   id INTEGER PRIMARY KEY,
   source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  source_provision_id INTEGER,
+  source_provision_id INTEGER REFERENCES legal_provisions(id),
   target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
   target_provision_ref TEXT,
+  reference_type TEXT NOT NULL DEFAULT 'external'
+    CHECK(reference_type IN ('internal', 'external')),
+  citation TEXT,
   context TEXT
 );
 
 CREATE INDEX idx_xref_source ON cross_references(source_document_id);
-CREATE INDEX idx_xref_target ON cross_references(target_document_id);
+CREATE INDEX idx_xref_source_provision ON cross_references(source_provision_id);
+CREATE INDEX idx_xref_target ON cross_references(target_document_id, target_provision_ref);
+
+-- Amendments and repeals between statutes. affected_provisions is a JSON array of
+-- provision refs (or part labels such as "Part II"); '[]' means the whole enactment.
+CREATE TABLE amendments (
+  id INTEGER PRIMARY KEY,
+  amending_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  amended_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  affected_provisions TEXT NOT NULL DEFAULT '[]',
+  effective_date TEXT,
+  kind TEXT NOT NULL
+    CHECK(kind IN ('insertion', 'substitution', 'repeal', 'amendment')),
+  source TEXT NOT NULL CHECK(source IN ('text', 'curated')),
+  source_provision_id INTEGER REFERENCES legal_provisions(id),
+  citation TEXT,
+  UNIQUE(amending_document_id, amended_document_id, kind, affected_provisions)
+);
+
+CREATE INDEX idx_amendments_amended ON amendments(amended_document_id, effective_date);
+CREATE INDEX idx_amendments_amending ON amendments(amending_document_id);
+
+-- Enabling authority of subsidiary legislation: the Act and sections an
+-- instrument was made under, curated in data/seed/_enabling_authorities.json.
+-- enabling_provision_ref is NULL when the enacting formula names no section.
+CREATE TABLE enabling_authorities (
+  id INTEGER PRIMARY KEY,
+  instrument_id TEXT NOT NULL REFERENCES legal_documents(id),
+  enabling_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  enabling_provision_ref TEXT,
+  citation TEXT
+);
+
+CREATE INDEX idx_enabling_parent ON enabling_authorities(enabling_document_id, enabling_provision_ref);
+CREATE INDEX idx_enabling_instrument ON enabling_authorities(instrument_id);
+
+-- Judgments of the superior courts (GhanaLII)
+CREATE TABLE case_law (
+  id INTEGER PRIMARY KEY,
+  case_id TEXT NOT NULL UNIQUE,
+  court TEXT NOT NULL CHECK(court IN ('GHASC', 'GHACA', 'GHAHC')),
+  neutral_citation TEXT NOT NULL,
+  case_number TEXT,
+  title TEXT NOT NULL,
+  parties TEXT,
+  judges TEXT,
+  decision_date TEXT,
+  url TEXT,
+  summary TEXT,
+  content TEXT NOT NULL
+);
+
+CREATE INDEX idx_case_law_court_date ON case_law(court, decision_date);
+CREATE INDEX idx_case_law_citation ON case_law(neutral_citation);
+
+-- FTS5 for judgment search
+CREATE VIRTUAL TABLE case_law_fts USING fts5(
+  title, summary, content,
+  content='case_law',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
+  INSERT INTO case_law_fts(rowid, title, summary, content)
+  VALUES (new.id, new.title, new.summary, new.content);
+END;
+
+CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
+  INSERT INTO case_law_fts(case_law_fts, rowid, title, summary, content)
+  VALUES ('delete', old.id, old.title, old.summary, old.content);
+END;
+
+CREATE TRIGGER case_law_au AFTER UPDATE ON case_law BEGIN
+  INSERT INTO case_law_fts(case_law_fts, rowid, title, summary, content)
+  VALUES ('delete', old.id, old.title, old.summary, old.content);
+  INSERT INTO case_law_fts(rowid, title, summary, content)
+  VALUES (new.id, new.title, new.summary, new.content);
+END;
+
+-- Statutes and provisions cited by judgments
+CREATE TABLE case_law_citations (
+  id INTEGER PRIMARY KEY,
+  case_law_id INTEGER NOT NULL REFERENCES case_law(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  citation TEXT,
+  context TEXT
+);
+
+CREATE INDEX idx_case_citations_case ON case_law_citations(case_law_id);
+CREATE INDEX idx_case_citations_target ON case_law_citations(document_id, provision_ref);
+
+-- Legislative history: memoranda, Hansard, committee reports and Bills
+CREATE TABLE preparatory_works (
+  id INTEGER PRIMARY KEY,
+  work_id TEXT NOT NULL UNIQUE,
+  document_id TEXT REFERENCES legal_documents(id),
+  type TEXT NOT NULL CHECK(type IN ('memorandum', 'hansard', 'committee_report', 'bill')),
+  title TEXT NOT NULL,
+  act_citation TEXT NOT NULL,
+  bill_title TEXT,
+  date TEXT,
+  url TEXT,
+  content TEXT NOT NULL
+);
+
+CREATE INDEX idx_preparatory_works_document ON preparatory_works(document_id, date);
+
+-- FTS5 for preparatory works search
+CREATE VIRTUAL TABLE preparatory_works_fts USING fts5(
+  title, content,
+  content='preparatory_works',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER preparatory_works_ai AFTER INSERT ON preparatory_works BEGIN
+  INSERT INTO preparatory_works_fts(rowid, title, content)
+  VALUES (new.id, new.title, new.content);
+END;
+
+CREATE TRIGGER preparatory_works_ad AFTER DELETE ON preparatory_works BEGIN
+  INSERT INTO preparatory_works_fts(preparatory_works_fts, rowid, title, content)
+  VALUES ('delete', old.id, old.title, old.content);
+END;
+
+CREATE TRIGGER preparatory_works_au AFTER UPDATE ON preparatory_works BEGIN
+  INSERT INTO preparatory_works_fts(preparatory_works_fts, rowid, title, content)
+  VALUES ('delete', old.id, old.title, old.content);
+  INSERT INTO preparatory_works_fts(rowid, title, content)
+  VALUES (new.id, new.title, new.content);
+END;
 
 -- Legal term definitions
 CREATE TABLE definitions (
@@ -268,6 +672,28 @@ function pickPreferredProvision(existing: ProvisionSeed, incoming: ProvisionSeed
   };
 }
 
+/**
+ * Position of a provision ref in an Act: sections by number ("s12", "s12A",
+ * "s13"), then schedules by number, each before its paragraphs ("sch1",
+ * "sch1-para2"). Other refs go last.
+ */
+function documentOrderKey(ref: string): [number, number, string, number] {
+  const section = ref.match(/^s(\d+)([A-Z]*)/i);
+  if (section) return [0, Number.parseInt(section[1]!, 10), section[2]!.toUpperCase(), 0];
+  const schedule = ref.match(/^sch(\d+)(?:-para(\d+))?/i);
+  if (schedule) return [1, Number.parseInt(schedule[1]!, 10), '', schedule[2] ? Number.parseInt(schedule[2], 10) : 0];
+  return [2, 0, '', 0];
+}
+
+/** Provisions in document order; the sort is stable, so refs with equal keys keep the seed's order. */
+function sortByDocumentOrder(provisions: ProvisionSeed[]): ProvisionSeed[] {
+  const keyed = provisions.map(provision => ({ provision, key: documentOrderKey(provision.provision_ref) }));
+  keyed.sort((a, b) =>
+    a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2].localeCompare(b.key[2]) || a.key[3] - b.key[3]);
+  return keyed.map(({ provision }) => provision);
+}
+
+/** Merge repeated refs; each ref keeps its first position, so document order survives. */
 function dedupeProvisions(provisions: ProvisionSeed[]): { deduped: ProvisionSeed[]; stats: ProvisionDedupStats } {
   const byRef = new Map<string, ProvisionSeed>();
   const stats: ProvisionDedupStats = {
@@ -302,6 +728,170 @@ function dedupeProvisions(provisions: ProvisionSeed[]): { deduped: ProvisionSeed
   };
 }
 
+/**
+ * Derive validity periods for every provision across a document's expressions.
+ *
+ * Expressions are ordered by their eng@DATE. Each one is valid until the next
+ * begins; the earliest is taken to apply from commencement. A provision whose
+ * text is unchanged across consecutive expressions keeps a single period, and a
+ * provision missing from a later expression ends when that expression begins.
+ */
+function buildProvisionVersions(
+  seed: DocumentSeed,
+  currentProvisions: ProvisionSeed[],
+): { versions: ProvisionVersionRow[]; expressions: number } {
+  const currentDate = seed.expression_date ?? seed.issued_date ?? `${seed.year}-01-01`;
+  const byDate = new Map<string, ProvisionSeed[]>();
+  for (const version of seed.historical_versions ?? []) {
+    byDate.set(version.expression_date, sortByDocumentOrder(dedupeProvisions(version.provisions).deduped));
+  }
+  byDate.set(currentDate, currentProvisions);
+
+  const expressions = [...byDate.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, provisions]) => ({ date, provisions }));
+
+  const commencement = seed.in_force_date ?? seed.issued_date ?? `${seed.year}-01-01`;
+  const firstFrom = commencement < expressions[0]!.date ? commencement : expressions[0]!.date;
+
+  const versions: ProvisionVersionRow[] = [];
+  const open = new Map<string, ProvisionVersionRow>();
+
+  expressions.forEach((expression, i) => {
+    const validFrom = i === 0 ? firstFrom : expression.date;
+    const present = new Set<string>();
+
+    for (const [index, provision] of expression.provisions.entries()) {
+      present.add(provision.provision_ref);
+      const current = open.get(provision.provision_ref);
+      if (current && normalizeWhitespace(current.provision.content) === normalizeWhitespace(provision.content)) {
+        continue;
+      }
+      if (current) current.valid_to = validFrom;
+
+      const row: ProvisionVersionRow = {
+        provision,
+        ordinal: index + 1,
+        expression_date: expression.date,
+        valid_from: validFrom,
+        valid_to: null,
+      };
+      versions.push(row);
+      open.set(provision.provision_ref, row);
+    }
+
+    for (const [ref, row] of open) {
+      if (!present.has(ref)) {
+        row.valid_to = validFrom;
+        open.delete(ref);
+      }
+    }
+  });
+
+  return { versions, expressions: expressions.length };
+}
+
+/**
+ * Subsections of a section whose seed carries no unit tree, split on its
+ * "(1) ... (2) ..." markers. Only a run numbered from (1) at the start of the
+ * text counts, and each later marker must follow the end of a sentence or
+ * clause, so "under subsection (2)" does not start a new subsection.
+ */
+function deriveSubsections(content: string): ProvisionUnitSeed[] {
+  const text = normalizeWhitespace(content);
+  if (!text.startsWith('(1) ')) return [];
+
+  const starts = [0];
+  const marker = /\((\d+)\) /g;
+  let next = 2;
+  let match: RegExpExecArray | null;
+  marker.lastIndex = 4;
+  while ((match = marker.exec(text)) !== null) {
+    if (Number(match[1]) !== next) continue;
+    if (!/[.:;—–-]\s*$/.test(text.slice(0, match.index))) continue;
+    starts.push(match.index);
+    next++;
+  }
+
+  return starts.map((start, i) => ({
+    level: 'subsection' as const,
+    num: String(i + 1),
+    content: text.slice(start, starts[i + 1]).trim(),
+  }));
+}
+
+/**
+ * TF-IDF vectors over the title and text of every provision. Terms found in a
+ * single provision cannot link two provisions, and terms in over half of them
+ * carry almost no weight, so neither enters the vocabulary.
+ */
+function buildProvisionVectors(db: Database.Database): { vectors: number; terms: number } {
+  const rows = db.prepare(
+    'SELECT id, document_id, title, content FROM legal_provisions ORDER BY id'
+  ).all() as { id: number; document_id: string; title: string | null; content: string }[];
+  const provisionTerms = rows.map(row => vectorTerms(`${row.title ?? ''} ${row.content}`));
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of provisionTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vocabulary = new Map<string, { id: number; idf: number }>();
+  for (const [term, frequency] of [...documentFrequency].sort(([a], [b]) => a.localeCompare(b))) {
+    if (frequency < 2 || frequency > rows.length / 2) continue;
+    vocabulary.set(term, { id: vocabulary.size + 1, idf: Math.log(rows.length / frequency) });
+  }
+
+  const insertTerm = db.prepare('INSERT INTO vector_terms (id, term, idf) VALUES (?, ?, ?)');
+  const insertVector = db.prepare(
+    'INSERT INTO provision_vectors (provision_id, document_id, vector) VALUES (?, ?, ?)'
+  );
+  let vectors = 0;
+  db.transaction(() => {
+    for (const [term, { id, idf }] of vocabulary) insertTerm.run(id, term, idf);
+    for (const [index, row] of rows.entries()) {
+      const vector = weightTerms(provisionTerms[index]!, term => vocabulary.get(term));
+      if (vector.size === 0) continue;
+      insertVector.run(row.id, row.document_id, encodeVector(vector));
+      vectors++;
+    }
+  })();
+
+  return { vectors, terms: vocabulary.size };
+}
+
+/**
+ * Trigram indexes over the words of provision text, taken from the FTS
+ * vocabulary, and over document titles.
+ */
+function buildTrigramIndexes(db: Database.Database): { terms: number; titles: number } {
+  db.exec("CREATE VIRTUAL TABLE temp.provision_vocabulary USING fts5vocab(main, provisions_fts, 'row')");
+  const words = db.prepare(`
+    SELECT term, doc FROM temp.provision_vocabulary
+    WHERE length(term) >= 3 AND term NOT GLOB '*[^a-z]*'
+    ORDER BY term
+  `).all() as { term: string; doc: number }[];
+  const titles = db.prepare('SELECT id, title FROM legal_documents').all() as { id: string; title: string }[];
+
+  const insertTerm = db.prepare('INSERT INTO search_vocabulary (term, frequency) VALUES (?, ?)');
+  const insertTermTrigram = db.prepare('INSERT INTO vocabulary_trigrams (trigram, term_id) VALUES (?, ?)');
+  const insertTitleTrigram = db.prepare('INSERT INTO title_trigrams (trigram, document_id) VALUES (?, ?)');
+  db.transaction(() => {
+    for (const { term, doc } of words) {
+      const termId = insertTerm.run(term, doc).lastInsertRowid;
+      for (const gram of trigrams(term)) insertTermTrigram.run(gram, termId);
+    }
+    for (const { id, title } of titles) {
+      for (const gram of titleTrigrams(title)) insertTitleTrigram.run(gram, id);
+    }
+  })();
+  db.exec('DROP TABLE temp.provision_vocabulary');
+
+  return { terms: words.length, titles: titles.length };
+}
+
 function normalizeEuYear(rawYear: string): number {
   const parsed = Number.parseInt(rawYear, 10);
   if (Number.isNaN(parsed)) return 0;
@@ -454,6 +1044,566 @@ function extractEuReferences(text: string): ExtractedEUReference[] {
   return refs;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Cross-reference extraction (Ghana → Ghana)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Instrument series labels as they appear in parenthesised citations,
+ * e.g. "(Act 843)", "(C.A. 6)", "(P.N.D.C.L. 256)", "(N.R.C.D. 323)", "(L.I. 2409)".
+ */
+const INSTRUMENT_SERIES_PATTERN = String.raw`Act|C\.\s*A\.|N\.\s*L\.\s*C\.\s*D\.|N\.\s*R\.\s*C\.\s*D\.|S\.\s*M\.\s*C\.\s*D\.|P\.\s*N\.\s*D\.\s*C\.\s*L\.|A\.\s*F\.\s*R\.\s*C\.\s*D\.|L\.\s*I\.|C\.\s*I\.|E\.\s*I\.|NLCD|NRCD|SMCD|PNDCL|AFRCD|CA|LI|CI|EI`;
+
+/** Series labels numbered apart from Acts of Parliament, by document type. */
+const NUMBERED_SERIES: Record<string, DocumentSeed['type']> = {
+  LI: 'legislative_instrument',
+  CI: 'constitutional_instrument',
+  EI: 'executive_instrument',
+  CA: 'constituent_assembly_act',
+  NLCD: 'nlc_decree',
+  NRCD: 'nrc_decree',
+  SMCD: 'smc_decree',
+  AFRCD: 'afrc_decree',
+  PNDCL: 'pndc_law',
+};
+
+/** Title words allowed in a cited enactment title ("State Property and Contracts Act"). */
+const TITLE_WORD = String.raw`(?:[A-Z][A-Za-z'’-]*|\([A-Z][A-Za-z ]*\)|and|of|for|on|in|the|to)`;
+
+/** Section list: "18", "57 (1)", "30(2)(a) and 40", "10 to 15". */
+const SECTION_LIST = String.raw`\d+[A-Z]?(?:\s*\(\w+\))*(?:\s*(?:,|and|or|to)\s*\d+[A-Z]?(?:\s*\(\w+\))*)*`;
+
+function normalizeSeriesLabel(raw: string): string {
+  const compact = raw.replace(/[.\s]/g, '').toUpperCase();
+  return compact === 'ACT' ? 'Act' : compact;
+}
+
+function cleanCitedTitle(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const title = raw
+    .replace(/^(?:(?:and|of|for|on|in|the|to|under|by)\s+)+/i, '')
+    // "Part II of the Local Government Act" cites part of an enactment, not its title
+    .replace(/^.*\b(?:Parts?|Schedules?|Sections?|Subsections?|Paragraphs?)\b.*?\s+of\s+(?:the\s+)?(?=[A-Z])/, '')
+    .replace(/^The\s+/, '')
+    .trim();
+  return /^[A-Z]/.test(title) && title.split(/\s+/).length >= 2 ? title : null;
+}
+
+/**
+ * Parse the enactment cited at the start of `text`, e.g.
+ * "the Companies Act, 2019 (Act 992)", "Act 843", "the Fisheries Law, 1991 (P.N.D.C.L. 256)".
+ */
+function parseCitedInstrument(text: string): { cited: CitedInstrument; length: number } | null {
+  const numbered = text.match(new RegExp(
+    String.raw`^\s*(?:the\s+)?((?:${TITLE_WORD}\s+){0,12}?(?:Act|Code|Law|Decree|Ordinance|Regulations|Instrument))?,?\s*(\d{4})?\s*\((${INSTRUMENT_SERIES_PATTERN})\s*(\d+)\)`,
+  ));
+  if (numbered) {
+    return {
+      cited: {
+        series: normalizeSeriesLabel(numbered[3]!),
+        number: Number.parseInt(numbered[4]!, 10),
+        year: numbered[2] ? Number.parseInt(numbered[2], 10) : null,
+        title: cleanCitedTitle(numbered[1]),
+      },
+      length: numbered[0].length,
+    };
+  }
+
+  const bare = text.match(/^\s*(Act|PNDCL|NLCD|NRCD|SMCD|AFRCD|L\.\s*I\.|LI)\s+(\d+)\b/);
+  if (bare) {
+    return {
+      cited: { series: normalizeSeriesLabel(bare[1]!), number: Number.parseInt(bare[2]!, 10), year: null, title: null },
+      length: bare[0].length,
+    };
+  }
+
+  const titled = text.match(new RegExp(
+    String.raw`^\s*(?:the\s+)?((?:${TITLE_WORD}\s+){0,12}?(?:Act|Code|Law|Decree|Ordinance)),\s*(\d{4})\b`,
+  ));
+  if (titled) {
+    const title = cleanCitedTitle(titled[1]);
+    if (title) {
+      return {
+        cited: { series: null, number: null, year: Number.parseInt(titled[2]!, 10), title },
+        length: titled[0].length,
+      };
+    }
+  }
+
+  return null;
+}
+
+function sectionNumbers(list: string): string[] {
+  const numbers: string[] = [];
+  const pattern = /(\d+)([A-Z]?)(?:\s+to\s+(\d+)\b(?![A-Z]))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list.replace(/\(\w+\)/g, ' '))) !== null) {
+    const from = Number.parseInt(match[1]!, 10);
+    const to = match[3] ? Number.parseInt(match[3], 10) : null;
+    // Expand plain ranges ("44 to 49"); keep the endpoints of implausibly long ones
+    if (to !== null && !match[2] && to > from && to - from <= 50) {
+      for (let n = from; n <= to; n++) numbers.push(String(n));
+    } else {
+      numbers.push(`${match[1]}${match[2]}`);
+      if (to !== null) numbers.push(String(to));
+    }
+  }
+  return numbers;
+}
+
+function snippetAround(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - 80);
+  const to = Math.min(text.length, end + 80);
+  return text.slice(from, to).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extract references to sections of the same enactment ("subject to section 18",
+ * "section 2 of this Act") and to other Ghanaian enactments ("section 3 of the
+ * Companies Act, 2019 (Act 992)", "the State Lands Act, 1962 (Act 125)").
+ */
+function extractCrossReferences(text: string): ExtractedCrossReference[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const refs: ExtractedCrossReference[] = [];
+  const seen = new Set<string>();
+  const coveredCitations: Array<[number, number]> = [];
+
+  const push = (ref: ExtractedCrossReference): void => {
+    const cited = ref.cited;
+    const key = [
+      ref.referenceType,
+      ref.targetSection ?? '',
+      cited?.series ?? '', cited?.number ?? '', cited?.title ?? '',
+    ].join(':');
+    if (seen.has(key)) return;
+    seen.add(key);
+    refs.push(ref);
+  };
+
+  // Section references, internal or followed by "of <enactment>"
+  const sectionPattern = new RegExp(String.raw`\bsections?\s+(${SECTION_LIST})`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = sectionPattern.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const rest = text.slice(end, end + 240);
+    const sections = sectionNumbers(match[1]!);
+
+    if (/^\s*(?:of|in)\s+this\s+(?:Act|Part|Law|Decree|Code|Ordinance)\b/i.test(rest)
+      || !/^\s*(?:of|in)\s/i.test(rest)) {
+      for (const section of sections) {
+        push({
+          referenceType: 'internal',
+          targetSection: section,
+          cited: null,
+          citation: match[0],
+          context: snippetAround(text, match.index, end),
+        });
+      }
+      continue;
+    }
+
+    const ofMatch = rest.match(/^\s*(?:of|in)\s+/i)!;
+    const parsed = parseCitedInstrument(rest.slice(ofMatch[0].length));
+    const citationEnd = end + ofMatch[0].length + (parsed?.length ?? 0);
+    if (parsed) coveredCitations.push([end, citationEnd]);
+
+    for (const section of sections) {
+      push({
+        referenceType: 'external',
+        targetSection: section,
+        cited: parsed?.cited ?? { series: null, number: null, year: null, title: null },
+        citation: text.slice(match.index, parsed ? citationEnd : end + 40).replace(/\s+/g, ' ').trim(),
+        context: snippetAround(text, match.index, citationEnd),
+      });
+    }
+  }
+
+  // Whole-enactment references: "the Companies Act, 2019 (Act 992)", "(C.A. 6)"
+  for (const found of findInstrumentCitations(text)) {
+    if (coveredCitations.some(([from, to]) => found.numberStart >= from && found.end <= to)) continue;
+
+    push({
+      referenceType: 'external',
+      targetSection: null,
+      cited: found.cited,
+      citation: text.slice(found.start, found.end).replace(/\s+/g, ' ').trim(),
+      context: snippetAround(text, found.numberStart, found.end),
+    });
+  }
+
+  return refs;
+}
+
+/**
+ * Find parenthesised enactment citations ("(Act 992)", "(C.A. 6)") together with
+ * the title and year preceding them ("the Companies Act, 2019 (Act 992)").
+ * `start` is where the title (or the parenthesis) begins.
+ */
+function findInstrumentCitations(
+  text: string,
+): Array<{ cited: CitedInstrument; start: number; numberStart: number; end: number }> {
+  const found: Array<{ cited: CitedInstrument; start: number; numberStart: number; end: number }> = [];
+  const instrumentPattern = new RegExp(String.raw`\((${INSTRUMENT_SERIES_PATTERN})\s*(\d+)\)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = instrumentPattern.exec(text)) !== null) {
+    const prefixStart = Math.max(0, match.index - 160);
+    const prefix = text.slice(prefixStart, match.index);
+    const titleMatch = prefix.match(new RegExp(
+      String.raw`((?:${TITLE_WORD}\s+){0,12}(?:Act|Code|Law|Decree|Ordinance|Regulations|Instrument))?,?\s*(\d{4})?,?\s*$`,
+    ));
+
+    const title = cleanCitedTitle(titleMatch?.[1]);
+    found.push({
+      cited: {
+        series: normalizeSeriesLabel(match[1]!),
+        number: Number.parseInt(match[2]!, 10),
+        year: titleMatch?.[2] ? Number.parseInt(titleMatch[2], 10) : null,
+        title,
+      },
+      start: title ? prefixStart + prefix.lastIndexOf(title) : match.index,
+      numberStart: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return found;
+}
+
+/**
+ * Resolve a cited enactment to a document ID using the runtime statute-id logic:
+ * Act or instrument number (+ year) first, then the title cascade. A title matched without
+ * its year is only accepted when the Act number confirms it, because cited
+ * years are occasionally misprinted in the source text.
+ */
+function resolveCitedInstrument(db: Database.Database, cited: CitedInstrument): string | null {
+  if (cited.series === 'Act' && cited.number) {
+    const byNumber = resolveActNumber(db, cited.number, cited.year ?? undefined);
+    if (byNumber) return byNumber;
+  }
+  const seriesType = cited.series ? NUMBERED_SERIES[cited.series] : undefined;
+  if (seriesType && cited.number) {
+    const byNumber = resolveInstrumentNumber(db, seriesType, cited.number, cited.year ?? undefined);
+    if (byNumber) return byNumber;
+  }
+  if (!cited.title) return null;
+
+  if (cited.year) {
+    const byTitle = resolveDocumentId(db, `${cited.title}, ${cited.year}`);
+    if (byTitle) return byTitle;
+  }
+
+  if (cited.series === 'Act' && cited.number) {
+    const candidate = resolveDocumentId(db, cited.title);
+    const row = candidate
+      ? db.prepare('SELECT act_number FROM legal_documents WHERE id = ?').get(candidate) as { act_number: number | null } | undefined
+      : undefined;
+    if (row?.act_number === cited.number) return candidate;
+  }
+  return null;
+}
+
+function describeCitedInstrument(cited: CitedInstrument | null): string {
+  if (!cited) return 'this Act';
+  if (cited.series && cited.number) {
+    return `${cited.series} ${cited.number}${cited.year ? ` (${cited.year})` : ''}`;
+  }
+  if (cited.title) return `${cited.title}${cited.year ? `, ${cited.year}` : ''}`;
+  return 'unidentified enactment';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Amendment extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** "is amended", "are hereby repealed", "are by this section repealed" */
+const AMENDING_VERB_PATTERN = /\b(?:is|are)\s+(?:hereby\s+|by\s+this\s+(?:Act|section)\s+)?(amended|repealed)\b/gi;
+
+/** Editorial notes: "[section 27 repealed by section 3 of Act 1045 of 2020]", "[Amended by s.1 (a) of Act 166]" */
+const AMENDMENT_NOTE_PATTERN =
+  /\[([^\]]*?)\b(repealed|substituted|inserted|amended)\s+by\s+(?:section|s\.)\s*\d+[A-Z]?(?:\s*\(\w+\))*\s+of\s+Act\s+(\d+)(?:\s+of\s+(\d{4}))?\s*\]/gi;
+
+const NOTE_KINDS: Record<string, AmendmentKind> = {
+  repealed: 'repeal',
+  substituted: 'substitution',
+  inserted: 'insertion',
+  amended: 'amendment',
+};
+
+/** Start of the clause ending at `index`: after a sentence end, semicolon, colon, dash or subsection number. */
+function clauseStart(text: string, index: number): number {
+  const boundary = /(?:\.\s+(?=[A-Z[(])|[;:—]\s*|\(\d+[A-Za-z]?\)\s+(?=[A-Z]))/g;
+  const head = text.slice(0, index);
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(head)) !== null) {
+    start = match.index + match[0].length;
+  }
+  return start;
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/** "This Act shall come into force on 1st January, 2005" */
+const COMMENCEMENT_PATTERN =
+  /\bThis\s+Act\s+(?:shall\s+)?comes?\s+into\s+force\s+on\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(?:day\s+of\s+)?([A-Za-z]+),?\s+(\d{4})/i;
+
+/** The commencement date a section states, as YYYY-MM-DD. */
+function commencementDate(text: string): string | null {
+  const match = text.match(COMMENCEMENT_PATTERN);
+  const month = match ? MONTHS.indexOf(match[2]!.toLowerCase()) : -1;
+  if (!match || month === -1) return null;
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1]!.padStart(2, '0')}`;
+}
+
+/** Only repeal wording makes a repeal; deleting words or a heading is an amendment. */
+function amendmentKind(clause: string): AmendmentKind | null {
+  if (/\b(?:substitution|substituting)\b/i.test(clause)) return 'substitution';
+  if (/\b(?:insertion|inserting|addition|adding)\b/i.test(clause)) return 'insertion';
+  if (/\b(?:repeal|repealing|revocation|revoking)\b/i.test(clause)) return 'repeal';
+  return null;
+}
+
+type UnitKind = 'subsection' | 'paragraph' | 'subparagraph';
+
+/** "(2)" subsection, "(b)" paragraph, "(vii)" subparagraph; "(i)" after a paragraph is read as a paragraph. */
+function unitKind(unit: string, previous?: UnitKind): UnitKind {
+  if (/^\d/.test(unit)) return 'subsection';
+  if (/^[ivxl]+$/i.test(unit) && !(unit.length === 1 && previous === 'paragraph')) return 'subparagraph';
+  return 'paragraph';
+}
+
+/**
+ * Provisions named in a section list, keeping subsection and paragraph
+ * pinpoints: "18 (1), (g) and (h)" → 18(1)(g), 18(1)(h); "34 (1), 38 and 40"
+ * → 34(1), 38, 40. A unit listed after a pinpoint is its sibling when of the
+ * same kind ("5(1) and (2)") and nested in it otherwise.
+ */
+function provisionPinpoints(list: string): string[] {
+  const refs: string[] = [];
+  const tokenPattern = /(\d+[A-Z]?(?:\s+to\s+\d+\b(?![A-Z]))?)|\((\w+)\)/g;
+  let section: string | null = null;
+  let path: string[] = [];
+  let previousEnd = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(list)) !== null) {
+    const attached = list.slice(previousEnd, match.index).trim() === '';
+    previousEnd = match.index + match[0].length;
+    if (match[1]) {
+      const numbers = sectionNumbers(match[1]);
+      refs.push(...numbers);
+      section = numbers.length === 1 ? numbers[0]! : null;
+      path = [];
+      continue;
+    }
+    if (section === null) continue;
+
+    const unit = match[2]!;
+    const kinds = path.reduce<UnitKind[]>((acc, u) => [...acc, unitKind(u, acc[acc.length - 1])], []);
+    const kind = unitKind(unit, kinds[kinds.length - 1]);
+    const level = attached ? -1 : kinds.lastIndexOf(kind);
+    const containerOnly = refs[refs.length - 1] === `${section}${path.map(u => `(${u})`).join('')}`;
+    if (level >= 0) {
+      // A sibling of an earlier unit
+      path = [...path.slice(0, level), unit];
+      refs.push(`${section}${path.map(u => `(${u})`).join('')}`);
+    } else {
+      // Nested in the previous unit, which then only locates it
+      path = [...path, unit];
+      const ref = `${section}${path.map(u => `(${u})`).join('')}`;
+      if (containerOnly) refs[refs.length - 1] = ref;
+      else refs.push(ref);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Pinpoint suffixes from units named outermost last, as in "subparagraphs
+ * (vii) and (xii) of paragraph (b) of subsection (2)" → (2)(b)(vii), (2)(b)(xii).
+ */
+function unitPinpoints(phrase: string): string[] {
+  const levels = phrase
+    .split(/\bof\b/i)
+    .map(part => [...part.matchAll(/\((\w+)\)/g)].map(m => `(${m[1]})`))
+    .filter(units => units.length > 0)
+    .reverse();
+  if (levels.length === 0) return [];
+  return levels.reduce<string[]>((acc, units) => acc.flatMap(prefix => units.map(unit => `${prefix}${unit}`)), ['']);
+}
+
+/** Units repealed within a section: "by the repeal of subsection (1)" */
+const REPEALED_UNITS_PATTERN =
+  /\brepeal\s+of\s+((?:(?:sub)?(?:sections?|paragraphs?)\s+\(\w+\)(?:\s*(?:,|and|or)\s*\(\w+\))*\s*(?:of\s+)?)+)/i;
+
+/** "of this Act", "of the Electronic Transactions Act, 2008", "of Act 772" */
+const OTHER_ENACTMENT_PATTERN = new RegExp(
+  String.raw`^\s*of\s+(?:this\s+(?:Act|Part)\b|(?:the\s+)?(?:${TITLE_WORD}\s+){0,12}?(?:Act|Code|Law|Decree|Ordinance|Regulations)\b|(?:Act|PNDCL|NRCD)\s+\d)`,
+  'i',
+);
+
+/**
+ * Section numbers named in an amending clause, ignoring sections of other
+ * enactments ("section 16 of this Act", "sections 107 to 123 of the ... Act").
+ */
+function amendedSections(clause: string): string[] {
+  const sections: string[] = [];
+  const pattern = new RegExp(String.raw`\bsections?\s+(${SECTION_LIST})`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(clause)) !== null) {
+    const rest = clause.slice(match.index + match[0].length);
+    if (OTHER_ENACTMENT_PATTERN.test(rest)) continue;
+    sections.push(...provisionPinpoints(match[1]!));
+  }
+  return sections;
+}
+
+/**
+ * Extract amendments and repeals from statute text: operative clauses of the
+ * amending enactment ("The Criminal Procedure Code, 1960 (Act 30) is amended in
+ * section 96(7) by the insertion ...", "The following enactments are hereby repealed: ...")
+ * and editorial notes left in the amended text.
+ */
+function extractAmendments(text: string): ExtractedAmendment[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const amendments: ExtractedAmendment[] = [];
+  const seen = new Set<string>();
+  const push = (amendment: ExtractedAmendment): void => {
+    const cited = amendment.cited;
+    const key = [
+      amendment.direction, amendment.kind, amendment.sections.join(','),
+      cited.series ?? '', cited.number ?? '', cited.title ?? '',
+    ].join(':');
+    if (seen.has(key)) return;
+    seen.add(key);
+    amendments.push(amendment);
+  };
+
+  let match: RegExpExecArray | null;
+  const verbPattern = new RegExp(AMENDING_VERB_PATTERN.source, 'gi');
+  while ((match = verbPattern.exec(text)) !== null) {
+    const verbEnd = match.index + match[0].length;
+    const start = clauseStart(text, match.index);
+    const subject = text.slice(start, match.index);
+    const repealed = match[1]!.toLowerCase() === 'repealed';
+
+    const citations = findInstrumentCitations(subject);
+    const bare = subject.match(/\bAct\s+(\d+)\s*$/);
+
+    if (repealed && /\bfollowing\s+enactments\b/i.test(subject)) {
+      // "The following enactments are hereby repealed: <list>" — the list follows the verb
+      const rest = text.slice(verbEnd, verbEnd + 1500);
+      const listEnd = rest.search(/\(\d+[A-Za-z]?\)\s+(?=[A-Z])/);
+      const list = listEnd >= 0 ? rest.slice(0, listEnd) : rest;
+      for (const found of findInstrumentCitations(list)) {
+        push({
+          direction: 'amends',
+          cited: found.cited,
+          kind: 'repeal',
+          sections: [],
+          citation: list.slice(found.start, found.end).replace(/\s+/g, ' ').trim(),
+        });
+      }
+      continue;
+    }
+
+    // The subject must end with the cited enactment ("... (Act 30) is amended")
+    const last = citations[citations.length - 1];
+    let subjects: Array<{ cited: CitedInstrument; start: number }> = [];
+    if (last && subject.slice(last.end).trim() === '') {
+      subjects = repealed ? citations : [last];
+    } else if (bare) {
+      subjects = [{
+        cited: { series: 'Act', number: Number.parseInt(bare[1]!, 10), year: null, title: null },
+        start: bare.index!,
+      }];
+    }
+
+    for (const { cited, start: citedStart } of subjects) {
+      // "Section 25 of the ... Act", "Part II of the ... Act": only part of the enactment
+      const before = subject.slice(0, citedStart);
+      const partOf = before.match(/^(.*?)\s+of\s+(?:the\s+)?$/is);
+      const partLabel = partOf ? partOf[1]!.replace(/\s+/g, ' ').trim() : '';
+      // "Subparagraphs (vii) and (xii) of paragraph (b) of subsection (2) of section 3" names units before the section
+      const subjectList = partOf ? partOf[1]!.match(/^(.*?)\bsections?\s+(.*)$/is) : null;
+      let subjectSections = subjectList ? provisionPinpoints(subjectList[2]!) : [];
+      const subjectUnits = subjectList ? unitPinpoints(subjectList[1]!) : [];
+      if (subjectUnits.length > 0 && subjectSections.length === 1) {
+        subjectSections = subjectUnits.map(unit => `${subjectSections[0]}${unit}`);
+      }
+      const citation = text.slice(start + (partOf ? 0 : citedStart), verbEnd).replace(/\s+/g, ' ').trim();
+
+      if (repealed) {
+        push({
+          direction: 'amends',
+          cited,
+          kind: 'repeal',
+          sections: subjectSections.length > 0 || !partOf ? subjectSections : [partLabel],
+          citation,
+        });
+        continue;
+      }
+
+      // Amending clause runs to the next operative verb or subsection
+      const rest = text.slice(verbEnd, verbEnd + 1500);
+      const nextVerb = rest.search(new RegExp(AMENDING_VERB_PATTERN.source, 'i'));
+      const nextSubsection = rest.search(/\(\d+[A-Za-z]?\)\s+(?=[A-Z])/);
+      const bodyEnd = Math.min(...[nextVerb, nextSubsection, rest.length].filter(n => n >= 0));
+      const body = rest.slice(0, bodyEnd);
+
+      const byKind = new Map<AmendmentKind, Set<string>>();
+      for (const subclause of body.split(';')) {
+        const sections = amendedSections(subclause);
+        let affected = sections.length > 0 ? sections : subjectSections;
+        let kind = amendmentKind(subclause) ?? 'amendment';
+        // "in section 146 by the repeal of subsection (1)" repeals only the subsection
+        const repealedUnits = kind === 'repeal' ? unitPinpoints(subclause.match(REPEALED_UNITS_PATTERN)?.[1] ?? '') : [];
+        if (repealedUnits.length > 0 && affected.length === 1 && !affected[0]!.includes('(')) {
+          affected = repealedUnits.map(unit => `${affected[0]}${unit}`);
+        }
+        // Deleting words from a schedule is not a repeal of the enactment
+        if (kind === 'repeal' && affected.length === 0) kind = 'amendment';
+        const bucket = byKind.get(kind) ?? new Set<string>();
+        affected.forEach(section => bucket.add(section));
+        byKind.set(kind, bucket);
+      }
+
+      // Unlocated changes (schedules, headings) only matter when nothing else was found
+      const located = [...byKind.values()].some(sections => sections.size > 0);
+      for (const [kind, sections] of byKind) {
+        if (located && sections.size === 0) continue;
+        push({ direction: 'amends', cited, kind, sections: [...sections], citation });
+      }
+    }
+  }
+
+  const notePattern = new RegExp(AMENDMENT_NOTE_PATTERN.source, 'gi');
+  while ((match = notePattern.exec(text)) !== null) {
+    const sectionNote = match[1]!.match(/^\s*section\s+(\d+[A-Z]?)\s*$/i);
+    push({
+      direction: 'amended_by',
+      cited: {
+        series: 'Act',
+        number: Number.parseInt(match[3]!, 10),
+        year: match[4] ? Number.parseInt(match[4], 10) : null,
+        title: null,
+      },
+      kind: NOTE_KINDS[match[2]!.toLowerCase()]!,
+      sections: sectionNote ? [sectionNote[1]!] : [],
+      citation: match[0],
+    });
+  }
+
+  return amendments;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Build
 // ─────────────────────────────────────────────────────────────────────────────
@@ -480,13 +1630,24 @@ function buildDatabase(): void {
 
   // Prepared statements
   const insertDoc = db.prepare(`
-    INSERT INTO legal_documents (id, type, title, short_name, act_number, year, status, issued_date, in_force_date, url)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_documents (id, type, title, short_name, act_number, year, status, issued_date, in_force_date, url, expression_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertProvisionVersion = db.prepare(`
+    INSERT INTO provision_versions
+      (document_id, provision_ref, part, chapter, section, title, content, ordinal, expression_date, valid_from, valid_to)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, part, chapter, section, title, content, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, part, chapter, section, title, content, metadata, ordinal)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertUnit = db.prepare(`
+    INSERT OR IGNORE INTO provision_units (provision_id, parent_id, document_id, provision_ref, level, num, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertDefinition = db.prepare(`
@@ -534,6 +1695,12 @@ function buildDatabase(): void {
   let emptyDocs = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
+  let totalVersions = 0;
+  let historicalExpressions = 0;
+  // Written only once some document turns out to have history (see below)
+  const pendingVersions: { documentId: string; version: ProvisionVersionRow }[] = [];
+  let totalUnits = 0;
+  let derivedUnitProvisions = 0;
   const primaryImplementationByDocument = new Set<string>();
 
   const loadAll = db.transaction(() => {
@@ -553,6 +1720,7 @@ function buildDatabase(): void {
         seed.issued_date ?? null,
         seed.in_force_date ?? null,
         seed.url ?? null,
+        seed.expression_date ?? null,
       );
       totalDocs++;
 
@@ -561,7 +1729,8 @@ function buildDatabase(): void {
         continue;
       }
 
-      const { deduped, stats } = dedupeProvisions(seed.provisions);
+      const { deduped: seedOrder, stats } = dedupeProvisions(seed.provisions);
+      const deduped = sortByDocumentOrder(seedOrder);
       totalDuplicateRefs += stats.duplicate_refs;
       totalConflictingDuplicates += stats.conflicting_duplicates;
       if (stats.duplicate_refs > 0) {
@@ -571,7 +1740,7 @@ function buildDatabase(): void {
         );
       }
 
-      for (const prov of deduped) {
+      for (const [index, prov] of deduped.entries()) {
         const insertResult = insertProvision.run(
           seed.id,
           prov.provision_ref,
@@ -581,10 +1750,28 @@ function buildDatabase(): void {
           prov.title ?? null,
           prov.content,
           prov.metadata ? JSON.stringify(prov.metadata) : null,
+          index + 1,
         );
         totalProvisions++;
 
         const provisionId = Number(insertResult.lastInsertRowid);
+
+        // Units are addressed as the provision ref plus each bracketed number: s1(2)(a)
+        const insertUnits = (units: ProvisionUnitSeed[], parentId: number | null, parentRef: string): void => {
+          for (const unit of units) {
+            const ref = `${parentRef}(${unit.num})`;
+            const result = insertUnit.run(provisionId, parentId, seed.id, ref, unit.level, unit.num, unit.content);
+            if (result.changes === 0) continue;
+            totalUnits++;
+            insertUnits(unit.children ?? [], Number(result.lastInsertRowid), ref);
+          }
+        };
+        let units = prov.children ?? [];
+        if (units.length === 0 && !prov.provision_ref.startsWith('sch')) {
+          units = deriveSubsections(prov.content);
+          if (units.length > 0) derivedUnitProvisions++;
+        }
+        insertUnits(units, null, prov.provision_ref);
         const extractedRefs = extractEuReferences(prov.content);
         if (extractedRefs.length > 0) {
           const sourceId = `${seed.id}:${prov.provision_ref}`;
@@ -649,6 +1836,12 @@ function buildDatabase(): void {
         }
       }
 
+      const { versions, expressions } = buildProvisionVersions(seed, deduped);
+      historicalExpressions += expressions - 1;
+      for (const version of versions) {
+        pendingVersions.push({ documentId: seed.id, version });
+      }
+
       for (const def of seed.definitions ?? []) {
         try {
           insertDefinition.run(
@@ -667,11 +1860,374 @@ function buildDatabase(): void {
 
   loadAll();
 
+  const loadProvisionVersions = db.transaction(() => {
+    for (const { documentId, version } of pendingVersions) {
+      const prov = version.provision;
+      insertProvisionVersion.run(
+        documentId,
+        prov.provision_ref,
+        prov.part ?? null,
+        prov.chapter ?? null,
+        prov.section,
+        prov.title ?? null,
+        prov.content,
+        version.ordinal,
+        version.expression_date,
+        version.valid_from,
+        version.valid_to,
+      );
+      totalVersions++;
+    }
+  });
+
+  if (historicalExpressions > 0) {
+    loadProvisionVersions();
+  }
+
+  // Cross-references need every document loaded before targets can be resolved
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references
+      (source_document_id, source_provision_id, target_document_id, target_provision_ref, reference_type, citation, context)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const provisionExists = db.prepare(
+    'SELECT 1 FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+  );
+
+  let totalInternalXrefs = 0;
+  let totalExternalXrefs = 0;
+  const unresolvedXrefs = new Map<string, number>();
+
+  const loadCrossReferences = db.transaction(() => {
+    const provisions = db.prepare(
+      'SELECT id, document_id, content FROM legal_provisions ORDER BY id'
+    ).all() as { id: number; document_id: string; content: string }[];
+
+    for (const prov of provisions) {
+      for (const ref of extractCrossReferences(prov.content)) {
+        const targetDocumentId = ref.cited
+          ? resolveCitedInstrument(db, ref.cited)
+          : prov.document_id;
+        const targetProvisionRef = ref.targetSection ? `s${ref.targetSection}` : null;
+
+        const resolved = targetDocumentId !== null && (
+          ref.referenceType === 'external' ||
+          (targetProvisionRef !== null && provisionExists.get(targetDocumentId, targetProvisionRef) !== undefined)
+        );
+        if (!resolved) {
+          const label = ref.referenceType === 'internal'
+            ? `internal ${targetProvisionRef}`
+            : describeCitedInstrument(ref.cited);
+          unresolvedXrefs.set(label, (unresolvedXrefs.get(label) ?? 0) + 1);
+          continue;
+        }
+
+        // A statute citing its own number (e.g. in its long title) is not a cross-reference
+        if (ref.referenceType === 'external' && targetDocumentId === prov.document_id && !targetProvisionRef) {
+          continue;
+        }
+
+        insertCrossReference.run(
+          prov.document_id,
+          prov.id,
+          targetDocumentId,
+          targetProvisionRef,
+          targetDocumentId === prov.document_id ? 'internal' : 'external',
+          ref.citation,
+          ref.context,
+        );
+        if (targetDocumentId === prov.document_id) {
+          totalInternalXrefs++;
+        } else {
+          totalExternalXrefs++;
+        }
+      }
+    }
+  });
+
+  loadCrossReferences();
+
+  // Amendments: curated seed first (authoritative), then text extraction
+  const insertAmendment = db.prepare(`
+    INSERT OR IGNORE INTO amendments
+      (amending_document_id, amended_document_id, affected_provisions, effective_date, kind, source, source_provision_id, citation)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const documentDates = db.prepare(
+    'SELECT in_force_date, issued_date, year FROM legal_documents WHERE id = ?'
+  );
+  const commencementClauses = db.prepare(
+    "SELECT content FROM legal_provisions WHERE document_id = ? AND content LIKE '%into force on%' ORDER BY id"
+  );
+  /**
+   * When an amending Act took effect: its recorded commencement, the date its
+   * commencement section states, or else its issue date if that falls in the
+   * Act's year or the next (assent). A later GhanaLII date is the consolidation
+   * it was published in, so the date is left unknown.
+   */
+  const effectiveDateOf = (documentId: string): string | null => {
+    const dates = documentDates.get(documentId) as
+      { in_force_date: string | null; issued_date: string | null; year: number } | undefined;
+    if (!dates) return null;
+    if (dates.in_force_date) return dates.in_force_date;
+    for (const { content } of commencementClauses.all(documentId) as { content: string }[]) {
+      const stated = commencementDate(content);
+      if (stated) return stated;
+    }
+    const issuedYear = dates.issued_date ? Number.parseInt(dates.issued_date.slice(0, 4), 10) : NaN;
+    return issuedYear >= dates.year && issuedYear <= dates.year + 1 ? dates.issued_date : null;
+  };
+
+  let totalAmendments = 0;
+  let curatedAmendments = 0;
+  let repealedStatutes = 0;
+  const unresolvedAmendments = new Map<string, number>();
+
+  const loadAmendments = db.transaction(() => {
+    // Curated entries override extracted ones for the same Acts and kind of change
+    const curatedKeys = new Set<string>();
+    if (fs.existsSync(AMENDMENTS_SEED_PATH)) {
+      const curated = JSON.parse(fs.readFileSync(AMENDMENTS_SEED_PATH, 'utf-8')) as { amendments: AmendmentSeed[] };
+      for (const seed of curated.amendments) {
+        if (!documentDates.get(seed.amending_document_id) || !documentDates.get(seed.amended_document_id)) {
+          console.log(
+            `    WARNING: curated amendment ${seed.amending_document_id} → ${seed.amended_document_id} ` +
+            'references an unknown document; skipped.'
+          );
+          continue;
+        }
+        const result = insertAmendment.run(
+          seed.amending_document_id,
+          seed.amended_document_id,
+          JSON.stringify(seed.affected_provisions ?? []),
+          seed.effective_date ?? effectiveDateOf(seed.amending_document_id),
+          seed.kind,
+          'curated',
+          null,
+          seed.citation ?? null,
+        );
+        curatedKeys.add(`${seed.amending_document_id}:${seed.amended_document_id}:${seed.kind}`);
+        totalAmendments += result.changes;
+        curatedAmendments += result.changes;
+      }
+    }
+
+    const provisions = db.prepare(
+      'SELECT id, document_id, provision_ref, content FROM legal_provisions ORDER BY id'
+    ).all() as { id: number; document_id: string; provision_ref: string; content: string }[];
+
+    for (const prov of provisions) {
+      for (const amendment of extractAmendments(prov.content)) {
+        const citedId = resolveCitedInstrument(db, amendment.cited);
+        if (!citedId) {
+          const label = describeCitedInstrument(amendment.cited);
+          unresolvedAmendments.set(label, (unresolvedAmendments.get(label) ?? 0) + 1);
+          continue;
+        }
+
+        const [amendingId, amendedId] = amendment.direction === 'amends'
+          ? [prov.document_id, citedId]
+          : [citedId, prov.document_id];
+        if (amendingId === amendedId) continue;
+        if (curatedKeys.has(`${amendingId}:${amendedId}:${amendment.kind}`)) continue;
+
+        const affected = amendment.sections.length > 0
+          ? amendment.sections.map(section => /^\d/.test(section) ? `s${section}` : section)
+          : amendment.direction === 'amended_by' ? [prov.provision_ref] : [];
+
+        const result = insertAmendment.run(
+          amendingId,
+          amendedId,
+          JSON.stringify(affected),
+          effectiveDateOf(amendingId),
+          amendment.kind,
+          'text',
+          prov.id,
+          amendment.citation,
+        );
+        totalAmendments += result.changes;
+      }
+    }
+
+    // A repeal of the whole enactment makes it repealed; partial amendments leave it in force
+    repealedStatutes = db.prepare(`
+      UPDATE legal_documents SET status = 'repealed'
+      WHERE id IN (
+        SELECT amended_document_id FROM amendments
+        WHERE kind = 'repeal' AND affected_provisions = '[]'
+      )
+    `).run().changes;
+  });
+
+  loadAmendments();
+
+  // Enabling authorities, curated: the GhanaLII seeds carry no enacting formulas to extract them from
+  const insertEnablingAuthority = db.prepare(`
+    INSERT INTO enabling_authorities (instrument_id, enabling_document_id, enabling_provision_ref, citation)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  let totalEnablingAuthorities = 0;
+  const instrumentsWithAuthority = new Set<string>();
+
+  const loadEnablingAuthorities = db.transaction(() => {
+    if (fs.existsSync(ENABLING_AUTHORITIES_SEED_PATH)) {
+      const curated = JSON.parse(fs.readFileSync(ENABLING_AUTHORITIES_SEED_PATH, 'utf-8')) as
+        { enabling_authorities: EnablingAuthoritySeed[] };
+      for (const seed of curated.enabling_authorities) {
+        if (!documentDates.get(seed.instrument_id) || !documentDates.get(seed.enabling_document_id)) {
+          console.log(
+            `    WARNING: curated enabling authority ${seed.instrument_id} → ${seed.enabling_document_id} ` +
+            'references an unknown document; skipped.'
+          );
+          continue;
+        }
+        const refs = seed.enabling_provisions && seed.enabling_provisions.length > 0 ? seed.enabling_provisions : [null];
+        for (const ref of refs) {
+          insertEnablingAuthority.run(seed.instrument_id, seed.enabling_document_id, ref, seed.citation ?? null);
+          totalEnablingAuthorities++;
+        }
+        instrumentsWithAuthority.add(seed.instrument_id);
+      }
+    }
+  });
+
+  loadEnablingAuthorities();
+
+  // Judgments, linked to the statutes they cite
+  const insertCase = db.prepare(`
+    INSERT INTO case_law
+      (case_id, court, neutral_citation, case_number, title, parties, judges, decision_date, url, summary, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertCaseCitation = db.prepare(`
+    INSERT INTO case_law_citations (case_law_id, document_id, provision_ref, citation, context)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  let totalCases = 0;
+  let totalCaseCitations = 0;
+
+  const loadCaseLaw = db.transaction(() => {
+    if (!fs.existsSync(CASE_SEED_DIR)) return;
+    const caseFiles = fs.readdirSync(CASE_SEED_DIR)
+      .filter(f => f.endsWith('.json') && !f.startsWith('.'));
+
+    for (const file of caseFiles) {
+      const seed = JSON.parse(fs.readFileSync(path.join(CASE_SEED_DIR, file), 'utf-8')) as CaseSeed;
+      const caseRowId = Number(insertCase.run(
+        seed.id,
+        seed.court,
+        seed.neutral_citation,
+        seed.case_number ?? null,
+        seed.title,
+        seed.parties && seed.parties.length > 0 ? JSON.stringify(seed.parties) : null,
+        seed.judges && seed.judges.length > 0 ? JSON.stringify(seed.judges) : null,
+        seed.decision_date ?? null,
+        seed.url ?? null,
+        seed.summary ?? null,
+        seed.content,
+      ).lastInsertRowid);
+      totalCases++;
+
+      // Bare "section 18" in a judgment has no enactment to resolve against
+      for (const ref of extractCrossReferences(seed.content)) {
+        if (ref.referenceType !== 'external' || !ref.cited) continue;
+        const documentId = resolveCitedInstrument(db, ref.cited);
+        if (!documentId) continue;
+        insertCaseCitation.run(
+          caseRowId,
+          documentId,
+          ref.targetSection ? `s${ref.targetSection}` : null,
+          ref.citation,
+          ref.context,
+        );
+        totalCaseCitations++;
+      }
+    }
+  });
+
+  loadCaseLaw();
+
+  // Preparatory works, linked to the resulting Act
+  const insertPreparatoryWork = db.prepare(`
+    INSERT INTO preparatory_works
+      (work_id, document_id, type, title, act_citation, bill_title, date, url, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let totalPreparatoryWorks = 0;
+  let unlinkedPreparatoryWorks = 0;
+
+  /** The Act header is a document ID, a citation with "(Act 843)", or a title. */
+  const resolvePreparatoryAct = (act: string): string | null => {
+    const byId = db.prepare('SELECT id FROM legal_documents WHERE id = ?').get(act.trim().toLowerCase()) as
+      { id: string } | undefined;
+    if (byId) return byId.id;
+    const [citation] = findInstrumentCitations(act);
+    if (citation) {
+      const resolved = resolveCitedInstrument(db, citation.cited);
+      if (resolved) return resolved;
+    }
+    return resolveDocumentId(db, act);
+  };
+
+  const loadPreparatoryWorks = db.transaction(() => {
+    if (!fs.existsSync(PREP_SEED_DIR)) return;
+    const prepFiles = fs.readdirSync(PREP_SEED_DIR)
+      .filter(f => f.endsWith('.json') && !f.startsWith('.'));
+
+    for (const file of prepFiles) {
+      const seed = JSON.parse(fs.readFileSync(path.join(PREP_SEED_DIR, file), 'utf-8')) as PreparatoryWorkSeed;
+      const documentId = resolvePreparatoryAct(seed.act);
+      if (!documentId) {
+        console.log(`    unlinked preparatory work: ${seed.id} (${seed.act})`);
+        unlinkedPreparatoryWorks++;
+      }
+      insertPreparatoryWork.run(
+        seed.id,
+        documentId,
+        seed.type,
+        seed.title,
+        seed.act,
+        seed.bill ?? null,
+        seed.date ?? null,
+        seed.url ?? null,
+        seed.content,
+      );
+      totalPreparatoryWorks++;
+    }
+  });
+
+  loadPreparatoryWorks();
+
+  // Every term of a group expands to every other
+  const insertThesaurus = db.prepare('INSERT OR IGNORE INTO thesaurus (term, equivalent, kind) VALUES (?, ?, ?)');
+  let thesaurusGroups = 0;
+  const loadThesaurus = db.transaction(() => {
+    if (!fs.existsSync(THESAURUS_SEED_PATH)) return;
+    const curated = JSON.parse(fs.readFileSync(THESAURUS_SEED_PATH, 'utf-8')) as { groups: ThesaurusGroupSeed[] };
+    for (const group of curated.groups) {
+      const terms = [...new Set(group.terms.map(t => normalizeWhitespace(t).toLowerCase()))];
+      for (const term of terms) {
+        for (const equivalent of terms) {
+          if (term !== equivalent) insertThesaurus.run(term, equivalent, group.kind);
+        }
+      }
+      thesaurusGroups++;
+    }
+  });
+
+  loadThesaurus();
+
+  const trigramIndexes = buildTrigramIndexes(db);
+  const similarity = buildProvisionVectors(db);
+
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
     insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '2');
+    insertMeta.run('schema_version', '16');
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
     insertMeta.run('jurisdiction', 'GH');
@@ -692,6 +2248,39 @@ function buildDatabase(): void {
     `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
     `${totalDefs} definitions, ${totalEuDocuments} EU/intl documents, ${totalEuReferences} intl references`
   );
+  console.log(
+    historicalExpressions > 0
+      ? `Provision versions: ${totalVersions} (${historicalExpressions} historical expressions).`
+      : 'Provision versions: none written (no document has a historical expression).',
+  );
+  console.log(
+    `Provision units: ${totalUnits} subsections/paragraphs ` +
+    `(${derivedUnitProvisions} provisions split on subsection markers).`
+  );
+  console.log(`Thesaurus: ${thesaurusGroups} groups of equivalent search terms.`);
+  console.log(`Trigram indexes: ${trigramIndexes.terms} words, ${trigramIndexes.titles} titles.`);
+  console.log(`Similarity vectors: ${similarity.vectors} provisions over ${similarity.terms} terms.`);
+  const totalUnresolvedXrefs = [...unresolvedXrefs.values()].reduce((sum, n) => sum + n, 0);
+  console.log(
+    `Cross-references: ${totalInternalXrefs} internal, ${totalExternalXrefs} external, ` +
+    `${totalUnresolvedXrefs} unresolved.`
+  );
+  if (totalUnresolvedXrefs > 0) {
+    const topUnresolved = [...unresolvedXrefs.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10);
+    for (const [label, count] of topUnresolved) {
+      console.log(`    unresolved: ${label} (${count}x)`);
+    }
+  }
+  const totalUnresolvedAmendments = [...unresolvedAmendments.values()].reduce((sum, n) => sum + n, 0);
+  console.log(
+    `Amendments: ${totalAmendments} (${curatedAmendments} curated), ${totalUnresolvedAmendments} unresolved; ` +
+    `${repealedStatutes} statutes marked repealed.`
+  );
+  console.log(`Enabling authorities: ${totalEnablingAuthorities} curated links for ${instrumentsWithAuthority.size} instruments.`);
+  console.log(`Case law: ${totalCases} judgments, ${totalCaseCitations} statute citations.`);
+  console.log(`Preparatory works: ${totalPreparatoryWorks} items, ${unlinkedPreparatoryWorks} not linked to an Act.`);
   if (emptyDocs > 0) {
     console.log(`  ${emptyDocs} documents with no provisions (content unavailable).`);
   }
@@ -12,7 +12,7 @@ import Database from 'better-sqlite3';
 import { existsSync, readFileSync } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { parseActIndex, type ActIndexEntry } from './lib/parser.js';
+import { legislationId, parseActIndex, type ActIndexEntry } from './lib/parser.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DB_PATH = resolve(__dirname, '../data/database.db');
@@ -29,8 +29,8 @@ interface UpdateHit {
   actNumber: number;
 }
 
-function toDocumentId(entry: Pick<ActIndexEntry, 'year' | 'actNumber'>): string {
-  return `act-${entry.actNumber}-${entry.year}`;
+function toDocumentId(entry: Pick<ActIndexEntry, 'year' | 'actNumber' | 'subtype'>): string {
+  return legislationId(entry.year, entry.actNumber, entry.subtype);
 }
 
 async function fetchIndexPage(page: number): Promise<string> {
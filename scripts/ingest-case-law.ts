@@ -0,0 +1,212 @@
+#!/usr/bin/env tsx
+/**
+ * Ghana Law MCP — Case Law Ingestion
+ *
+ * Two-phase ingestion of judgments from GhanaLII (ghalii.org):
+ *   Phase 1 (Discovery): Scrape each court's judgment listing
+ *   Phase 2 (Content): Fetch each judgment, parse, and write seed JSON to data/seed/case-law/
+ *
+ * Courts: GHASC (Supreme Court), GHACA (Court of Appeal), GHAHC (High Court).
+ *
+ * Usage:
+ *   npm run ingest:cases                       # All three courts
+ *   npm run ingest:cases -- --court GHASC      # One court
+ *   npm run ingest:cases -- --limit 20         # Test with 20 judgments per court
+ *   npm run ingest:cases -- --skip-discovery   # Reuse cached judgment indexes
+ *
+ * Data is sourced from GhanaLII under open access principles.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { fetchJudgmentIndex, fetchJudgmentContent } from './lib/fetcher.js';
+import {
+  parseJudgmentIndex,
+  parseJudgmentContent,
+  type JudgmentIndexEntry,
+} from './lib/parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SOURCE_DIR = path.resolve(__dirname, '../data/source');
+const CASE_SEED_DIR = path.resolve(__dirname, '../data/seed/case-law');
+const COURTS = ['GHASC', 'GHACA', 'GHAHC'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLI argument parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseArgs(): { limit: number | null; skipDiscovery: boolean; courts: string[] } {
+  const args = process.argv.slice(2);
+  let limit: number | null = null;
+  let skipDiscovery = false;
+  let courts = COURTS;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--limit' && args[i + 1]) {
+      limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === '--skip-discovery') {
+      skipDiscovery = true;
+    } else if (args[i] === '--court' && args[i + 1]) {
+      const court = args[i + 1].toUpperCase();
+      if (!COURTS.includes(court)) {
+        throw new Error(`Unknown court "${args[i + 1]}". Expected one of: ${COURTS.join(', ')}`);
+      }
+      courts = [court];
+      i++;
+    }
+  }
+
+  return { limit, skipDiscovery, courts };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phase 1: Discovery — Build judgment index per court
+// ─────────────────────────────────────────────────────────────────────────────
+
+function indexPath(court: string): string {
+  return path.join(SOURCE_DIR, `judgment-index-${court.toLowerCase()}.json`);
+}
+
+async function discoverJudgments(court: string): Promise<JudgmentIndexEntry[]> {
+  console.log(`Phase 1: Discovering ${court} judgments from GhanaLII...\n`);
+
+  const entries: JudgmentIndexEntry[] = [];
+  const seen = new Set<string>();
+  let page = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    process.stdout.write(`  Fetching ${court} index page ${page}...`);
+
+    const result = await fetchJudgmentIndex(court, page);
+    if (result.status !== 200) {
+      console.log(` HTTP ${result.status} — stopping discovery.`);
+      break;
+    }
+
+    const indexResult = parseJudgmentIndex(result.body, court);
+    let added = 0;
+    for (const entry of indexResult.entries) {
+      const key = `${entry.year}-${entry.number}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push(entry);
+      added++;
+    }
+    console.log(` ${added} entries`);
+
+    // A page with nothing new means pagination has wrapped around
+    hasMore = indexResult.hasNextPage && added > 0;
+    page++;
+
+    // Safety limit to avoid infinite loops
+    if (page > 500) {
+      console.log('  WARNING: Hit page limit of 500, stopping discovery.');
+      break;
+    }
+  }
+
+  console.log(`\n  Discovered ${entries.length} ${court} judgments (${page} pages)\n`);
+
+  fs.mkdirSync(SOURCE_DIR, { recursive: true });
+  fs.writeFileSync(indexPath(court), JSON.stringify(entries, null, 2));
+  console.log(`  Index saved to ${indexPath(court)}\n`);
+
+  return entries;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phase 2: Content — Fetch and parse each judgment
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function fetchAndParseJudgments(entries: JudgmentIndexEntry[], limit: number | null): Promise<void> {
+  const toProcess = limit ? entries.slice(0, limit) : entries;
+  console.log(`Phase 2: Fetching ${toProcess.length} judgments...\n`);
+
+  fs.mkdirSync(CASE_SEED_DIR, { recursive: true });
+
+  let processed = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const entry of toProcess) {
+    const seedFile = path.join(CASE_SEED_DIR, `${entry.court.toLowerCase()}-${entry.year}-${entry.number}.json`);
+
+    // Incremental: skip if seed already exists
+    if (fs.existsSync(seedFile)) {
+      skipped++;
+      processed++;
+      continue;
+    }
+
+    try {
+      const result = await fetchJudgmentContent(entry.url);
+      if (result.status !== 200) {
+        console.log(`  ERROR: HTTP ${result.status} for ${entry.court} ${entry.year}/${entry.number}`);
+        failed++;
+      } else {
+        const parsed = parseJudgmentContent(result.body, entry);
+        if (parsed.content.length === 0) {
+          console.log(`  WARNING: no judgment text for ${parsed.neutral_citation}`);
+          failed++;
+        } else {
+          fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
+        }
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR parsing ${entry.court} ${entry.year}/${entry.number}: ${msg}`);
+      failed++;
+    }
+
+    processed++;
+    if (processed % 50 === 0) {
+      console.log(`  Progress: ${processed}/${toProcess.length} (${skipped} skipped, ${failed} failed)`);
+    }
+  }
+
+  console.log(`\nPhase 2 complete:`);
+  console.log(`  Processed: ${processed}`);
+  console.log(`  Skipped (already cached): ${skipped}`);
+  console.log(`  Failed/No content: ${failed}`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const { limit, skipDiscovery, courts } = parseArgs();
+
+  console.log('Ghana Law MCP — Case Law Ingestion');
+  console.log('==================================\n');
+
+  if (limit) console.log(`  --limit ${limit}`);
+  if (skipDiscovery) console.log(`  --skip-discovery`);
+  console.log(`  courts: ${courts.join(', ')}`);
+  console.log('');
+
+  for (const court of courts) {
+    let entries: JudgmentIndexEntry[];
+    if (skipDiscovery && fs.existsSync(indexPath(court))) {
+      console.log(`Using cached ${court} index from ${indexPath(court)}\n`);
+      entries = JSON.parse(fs.readFileSync(indexPath(court), 'utf-8'));
+    } else {
+      entries = await discoverJudgments(court);
+    }
+
+    await fetchAndParseJudgments(entries, limit);
+    console.log('');
+  }
+
+  console.log('Case law ingestion complete.');
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+/**
+ * Ghana Law MCP — Preparatory Works Ingestion
+ *
+ * Converts a local folder of legislative history documents into seed JSON
+ * under data/seed/preparatory-works/: explanatory memoranda to Bills,
+ * Parliamentary Hansard excerpts, committee reports and the Bills themselves.
+ *
+ * Each file (.txt, .md, .html, .htm) opens with a header block, e.g.:
+ *
+ *   Type: memorandum
+ *   Title: Memorandum to the Data Protection Bill, 2011
+ *   Act: Data Protection Act, 2012 (Act 843)
+ *   Bill: Data Protection Bill, 2011
+ *   Date: 2011-11-04
+ *   URL: https://www.parliament.gh/...
+ *
+ *   The purpose of this Bill is to ...
+ *
+ * The Act header links the item to the resulting Act at build time.
+ *
+ * Usage:
+ *   npm run ingest:prep-works                          # data/source/preparatory-works/
+ *   npm run ingest:prep-works -- --dir ~/hansard       # Another folder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parsePreparatoryWork } from './lib/parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_SOURCE_DIR = path.resolve(__dirname, '../data/source/preparatory-works');
+const PREP_SEED_DIR = path.resolve(__dirname, '../data/seed/preparatory-works');
+const SUPPORTED_EXTENSIONS = new Set(['.txt', '.md', '.html', '.htm']);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLI argument parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseArgs(): { dir: string } {
+  const args = process.argv.slice(2);
+  let dir = DEFAULT_SOURCE_DIR;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dir' && args[i + 1]) {
+      dir = path.resolve(args[i + 1]);
+      i++;
+    }
+  }
+
+  return { dir };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────────────────────────────
+
+function main(): void {
+  const { dir } = parseArgs();
+
+  console.log('Ghana Law MCP — Preparatory Works Ingestion');
+  console.log('===========================================\n');
+  console.log(`  source: ${dir}\n`);
+
+  if (!fs.existsSync(dir)) {
+    console.log(`Source folder not found. Place memoranda, Hansard excerpts and reports in ${dir}`);
+    return;
+  }
+
+  fs.mkdirSync(PREP_SEED_DIR, { recursive: true });
+
+  const files = fs.readdirSync(dir)
+    .filter(f => SUPPORTED_EXTENSIONS.has(path.extname(f).toLowerCase()) && !f.startsWith('.'))
+    .sort();
+
+  let written = 0;
+  let failed = 0;
+  const seenIds = new Set<string>();
+
+  for (const file of files) {
+    try {
+      const parsed = parsePreparatoryWork(fs.readFileSync(path.join(dir, file), 'utf-8'), file);
+      if (parsed.content.length === 0) {
+        console.log(`  WARNING: no text in ${file}`);
+        failed++;
+        continue;
+      }
+      if (seenIds.has(parsed.id)) {
+        console.log(`  ERROR: ${file} maps to duplicate ID "${parsed.id}"`);
+        failed++;
+        continue;
+      }
+      seenIds.add(parsed.id);
+      fs.writeFileSync(path.join(PREP_SEED_DIR, `${parsed.id}.json`), JSON.stringify(parsed, null, 2));
+      written++;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR: ${msg}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nPreparatory works ingestion complete:`);
+  console.log(`  Written: ${written}`);
+  console.log(`  Failed: ${failed}`);
+}
+
+main();
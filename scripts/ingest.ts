@@ -3,13 +3,18 @@
  * Ghana Law MCP — Ingestion Pipeline
  *
  * Two-phase ingestion of Ghana legislation from GhanaLII (ghalii.org):
- *   Phase 1 (Discovery): Scrape act index pages to build act list
- *   Phase 2 (Content): Fetch HTML for each act, parse, and write seed JSON
+ *   Phase 1 (Discovery): Scrape legislation index pages to build the list of
+ *     Acts and Legislative, Constitutional and Executive Instruments
+ *   Phase 2 (Content): Fetch HTML for each, parse, and write seed JSON
+ *
+ * Seeds are named YYYY_NNN.json for Acts, li_YYYY_NNN.json (ci_, ei_) for instruments and
+ * pndcl_YYYY_NNN.json (nrcd_, afrcd_, ...) for pre-1992 laws and decrees.
  *
  * Usage:
  *   npm run ingest                    # Full ingestion
  *   npm run ingest -- --limit 20      # Test with 20 acts
  *   npm run ingest -- --skip-discovery # Reuse cached act index
+ *   npm run ingest -- --versions       # Also fetch older points in time (eng@DATE)
  *
  * Data is sourced from GhanaLII under open access principles.
  */
@@ -18,7 +23,18 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { fetchActIndex, fetchActContent } from './lib/fetcher.js';
-import { parseActIndex, parseActContent, type ActIndexEntry, type ParsedAct } from './lib/parser.js';
+import {
+  isInstrumentSubtype,
+  isSeriesSubtype,
+  legislationId,
+  legislationType,
+  parseActIndex,
+  parseActContent,
+  parseExpressionDates,
+  type ActIndexEntry,
+  type ParsedAct,
+  type ParsedVersion,
+} from './lib/parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,10 +47,11 @@ const INDEX_PATH = path.join(SOURCE_DIR, 'act-index.json');
 // CLI argument parsing
 // ─────────────────────────────────────────────────────────────────────────────
 
-function parseArgs(): { limit: number | null; skipDiscovery: boolean } {
+function parseArgs(): { limit: number | null; skipDiscovery: boolean; versions: boolean } {
   const args = process.argv.slice(2);
   let limit: number | null = null;
   let skipDiscovery = false;
+  let versions = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--limit' && args[i + 1]) {
@@ -42,18 +59,32 @@ function parseArgs(): { limit: number | null; skipDiscovery: boolean } {
       i++;
     } else if (args[i] === '--skip-discovery') {
       skipDiscovery = true;
+    } else if (args[i] === '--versions') {
+      versions = true;
     }
   }
 
-  return { limit, skipDiscovery };
+  return { limit, skipDiscovery, versions };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Phase 1: Discovery — Build act index from GhanaLII
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Indexes cached before subtypes were recorded only carry them in the URL. */
+function withSubtype(entry: ActIndexEntry): ActIndexEntry {
+  if (entry.subtype) return entry;
+  const subtype = entry.url.match(/\/akn\/gh\/act\/([a-z]+)\/\d{4}\//)?.[1];
+  return subtype ? { ...entry, subtype } : entry;
+}
+
+function seedFileName(entry: ActIndexEntry): string {
+  const prefix = isSeriesSubtype(entry.subtype) ? `${entry.subtype}_` : '';
+  return `${prefix}${entry.year}_${entry.actNumber}.json`;
+}
+
 async function discoverActs(): Promise<ActIndexEntry[]> {
-  console.log('Phase 1: Discovering Ghana Acts of Parliament from GhanaLII...\n');
+  console.log('Phase 1: Discovering Ghana Acts and Instruments from GhanaLII...\n');
 
   const allEntries: ActIndexEntry[] = [];
   let page = 0;
@@ -84,18 +115,22 @@ async function discoverActs(): Promise<ActIndexEntry[]> {
     }
   }
 
-  // Deduplicate by year+actNumber
+  // Deduplicate by subtype+year+actNumber
   const seen = new Set<string>();
   const deduped: ActIndexEntry[] = [];
   for (const entry of allEntries) {
-    const key = `${entry.year}-${entry.actNumber}`;
+    const key = `${entry.subtype ?? ''}-${entry.year}-${entry.actNumber}`;
     if (!seen.has(key)) {
       seen.add(key);
       deduped.push(entry);
     }
   }
 
-  console.log(`\n  Discovered ${deduped.length} unique acts (from ${allEntries.length} entries, ${page} pages)\n`);
+  const instruments = deduped.filter(entry => isInstrumentSubtype(entry.subtype)).length;
+  console.log(
+    `\n  Discovered ${deduped.length} unique works (${deduped.length - instruments} acts, ${instruments} instruments) ` +
+    `from ${allEntries.length} entries, ${page} pages\n`,
+  );
 
   // Save index
   fs.mkdirSync(SOURCE_DIR, { recursive: true });
@@ -109,7 +144,36 @@ async function discoverActs(): Promise<ActIndexEntry[]> {
 // Phase 2: Content — Fetch and parse each act
 // ─────────────────────────────────────────────────────────────────────────────
 
-async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null): Promise<void> {
+/**
+ * Fetch and parse every older expression (point in time) of an act.
+ * Failures are logged and skipped — the current expression is still written.
+ */
+async function fetchHistoricalVersions(act: ActIndexEntry, currentHtml: string, currentDate?: string): Promise<ParsedVersion[]> {
+  const workUrl = act.url.replace(/\/eng@.*$/, '');
+  const dates = parseExpressionDates(currentHtml, act.year, act.actNumber, act.subtype)
+    .filter(date => date !== currentDate);
+
+  const versions: ParsedVersion[] = [];
+  for (const date of dates) {
+    try {
+      const result = await fetchActContent(`${workUrl}/eng@${date}`);
+      if (result.status !== 200) {
+        console.log(`  WARNING: HTTP ${result.status} for ${act.year}/${act.actNumber} eng@${date}`);
+        continue;
+      }
+      const parsed = parseActContent(result.body, act.year, act.actNumber, act.title, act.subtype);
+      if (parsed.provisions.length > 0) {
+        versions.push({ expression_date: date, provisions: parsed.provisions });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  WARNING: could not parse ${act.year}/${act.actNumber} eng@${date}: ${msg}`);
+    }
+  }
+  return versions;
+}
+
+async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null, versions: boolean): Promise<void> {
   const toProcess = limit ? acts.slice(0, limit) : acts;
   console.log(`Phase 2: Fetching content for ${toProcess.length} acts...\n`);
 
@@ -121,7 +185,7 @@ async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null): P
   let totalProvisions = 0;
 
   for (const act of toProcess) {
-    const seedFile = path.join(SEED_DIR, `${act.year}_${act.actNumber}.json`);
+    const seedFile = path.join(SEED_DIR, seedFileName(act));
 
     // Incremental: skip if seed already exists
     if (fs.existsSync(seedFile)) {
@@ -140,8 +204,8 @@ async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null): P
         if (result.status === 404 || result.status === 301 || result.status === 302) {
           // Write a minimal seed so we don't retry
           const minimalSeed: ParsedAct = {
-            id: `act-${act.actNumber}-${act.year}`,
-            type: 'act',
+            id: legislationId(act.year, act.actNumber, act.subtype),
+            type: legislationType(act.subtype),
             title: act.title,
             short_name: '',
             act_number: act.actNumber,
@@ -159,7 +223,11 @@ async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null): P
           failed++;
         }
       } else {
-        const parsed = parseActContent(result.body, act.year, act.actNumber, act.title);
+        const parsed = parseActContent(result.body, act.year, act.actNumber, act.title, act.subtype);
+        if (versions) {
+          const historical = await fetchHistoricalVersions(act, result.body, parsed.expression_date);
+          if (historical.length > 0) parsed.historical_versions = historical;
+        }
         fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
         totalProvisions += parsed.provisions.length;
       }
@@ -187,26 +255,27 @@ async function fetchAndParseActs(acts: ActIndexEntry[], limit: number | null): P
 // ─────────────────────────────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
-  const { limit, skipDiscovery } = parseArgs();
+  const { limit, skipDiscovery, versions } = parseArgs();
 
   console.log('Ghana Law MCP — Ingestion Pipeline');
   console.log('===================================\n');
 
   if (limit) console.log(`  --limit ${limit}`);
   if (skipDiscovery) console.log(`  --skip-discovery`);
+  if (versions) console.log(`  --versions`);
   console.log('');
 
   let acts: ActIndexEntry[];
 
   if (skipDiscovery && fs.existsSync(INDEX_PATH)) {
     console.log(`Using cached act index from ${INDEX_PATH}\n`);
-    acts = JSON.parse(fs.readFileSync(INDEX_PATH, 'utf-8'));
+    acts = (JSON.parse(fs.readFileSync(INDEX_PATH, 'utf-8')) as ActIndexEntry[]).map(withSubtype);
     console.log(`  ${acts.length} acts in index\n`);
   } else {
     acts = await discoverActs();
   }
 
-  await fetchAndParseActs(acts, limit);
+  await fetchAndParseActs(acts, limit, versions);
 
   console.log('\nIngestion complete.');
 }
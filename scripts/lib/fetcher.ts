@@ -66,7 +66,7 @@ export async function fetchWithRateLimit(url: string, maxRetries = 3): Promise<F
 /**
  * Fetch the act index page from GhanaLII.
  * Uses /legislation/ endpoint with pagination (?page=N).
- * GhanaLII uses Akoma Ntoso URLs: /akn/gh/act/YYYY/NNN/eng@DATE
+ * GhanaLII uses Akoma Ntoso URLs: /akn/gh/act/YYYY/NNN/eng@DATE (instruments: /akn/gh/act/li/YYYY/NNN/eng@DATE)
  */
 export async function fetchActIndex(page = 0): Promise<FetchResult> {
   const url = page === 0
@@ -83,3 +83,23 @@ export async function fetchActContent(actUrl: string): Promise<FetchResult> {
   const url = actUrl.startsWith('http') ? actUrl : `${BASE_URL}${actUrl}`;
   return fetchWithRateLimit(url);
 }
+
+/**
+ * Fetch a judgment listing page for one court.
+ * Court codes follow GhanaLII: GHASC (Supreme Court), GHACA (Court of Appeal), GHAHC (High Court).
+ */
+export async function fetchJudgmentIndex(court: string, page = 0): Promise<FetchResult> {
+  const url = page === 0
+    ? `${BASE_URL}/judgments/${court}/`
+    : `${BASE_URL}/judgments/${court}/?page=${page}`;
+  return fetchWithRateLimit(url);
+}
+
+/**
+ * Fetch an individual judgment page.
+ * Accepts AKN URLs like /akn/gh/judgment/ghasc/2020/12/eng@2020-03-04
+ */
+export async function fetchJudgmentContent(judgmentUrl: string): Promise<FetchResult> {
+  const url = judgmentUrl.startsWith('http') ? judgmentUrl : `${BASE_URL}${judgmentUrl}`;
+  return fetchWithRateLimit(url);
+}
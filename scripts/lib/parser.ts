@@ -7,7 +7,12 @@
  *
  * Act index URL: /legislation/ (paginated with ?page=N)
  * Act content URL: /akn/gh/act/YYYY/NNN/eng@DATE
+ * Instrument content URL: /akn/gh/act/li/YYYY/NNN/eng@DATE (also ci/, ei/)
+ * Judgment index URL: /judgments/COURT/ (paginated with ?page=N)
+ * Judgment content URL: /akn/gh/judgment/COURT/YYYY/NNN/eng@DATE
+ * Preparatory works are local files (memoranda, Hansard, committee reports, bills)
  * Content uses: <section class="akn-section"> with nested akn-subsection/akn-paragraph
+ * Schedules are <div class="akn-attachment"> after the body, often with tables
  * TOC available as: <script id="akn_toc_json">
  */
 
@@ -22,6 +27,60 @@ export interface ActIndexEntry {
   year: number;
   actNumber: number;
   url: string;
+  /** AKN subtype from the URL ("li", "ci", "ei", "pndcl", ...); absent for Acts of Parliament */
+  subtype?: string;
+}
+
+/** AKN subtypes ingested as subsidiary legislation rather than Acts. */
+export const INSTRUMENT_TYPES = {
+  li: 'legislative_instrument',
+  ci: 'constitutional_instrument',
+  ei: 'executive_instrument',
+} as const;
+
+/**
+ * AKN subtypes of pre-1992 primary legislation. Each series is numbered
+ * independently of Acts of Parliament, so PNDCL 152 and Act 152 are different works.
+ */
+export const DECREE_TYPES = {
+  ca: 'constituent_assembly_act',
+  nlcd: 'nlc_decree',
+  nrcd: 'nrc_decree',
+  smcd: 'smc_decree',
+  afrcd: 'afrc_decree',
+  pndcl: 'pndc_law',
+} as const;
+
+export type InstrumentSubtype = keyof typeof INSTRUMENT_TYPES;
+export type DecreeSubtype = keyof typeof DECREE_TYPES;
+export type LegislationType =
+  | 'act'
+  | (typeof INSTRUMENT_TYPES)[InstrumentSubtype]
+  | (typeof DECREE_TYPES)[DecreeSubtype];
+
+export function isInstrumentSubtype(subtype: string | undefined): subtype is InstrumentSubtype {
+  return subtype !== undefined && Object.prototype.hasOwnProperty.call(INSTRUMENT_TYPES, subtype);
+}
+
+export function isDecreeSubtype(subtype: string | undefined): subtype is DecreeSubtype {
+  return subtype !== undefined && Object.prototype.hasOwnProperty.call(DECREE_TYPES, subtype);
+}
+
+/** Subtypes with their own numbering and document type; others ("gn", "standard") are filed as Acts. */
+export function isSeriesSubtype(subtype: string | undefined): subtype is InstrumentSubtype | DecreeSubtype {
+  return isInstrumentSubtype(subtype) || isDecreeSubtype(subtype);
+}
+
+/** Document type for an AKN subtype: legislative_instrument for "li", pndc_law for "pndcl". */
+export function legislationType(subtype?: string): LegislationType {
+  if (isInstrumentSubtype(subtype)) return INSTRUMENT_TYPES[subtype];
+  if (isDecreeSubtype(subtype)) return DECREE_TYPES[subtype];
+  return 'act';
+}
+
+/** "li-2409-2020" for L.I. 2409 of 2020, "pndcl-152-1985" for PNDCL 152, "act-843-2012" for Act 843. */
+export function legislationId(year: number, number: number, subtype?: string): string {
+  return `${isSeriesSubtype(subtype) ? subtype : 'act'}-${number}-${year}`;
 }
 
 export interface ActIndexResult {
@@ -30,9 +89,10 @@ export interface ActIndexResult {
 }
 
 /**
- * Parse the GhanaLII legislation listing page to extract act entries.
+ * Parse the GhanaLII legislation listing page to extract act and instrument entries.
  * Links follow the Akoma Ntoso pattern: /akn/gh/act/YYYY/NNN/eng@DATE
- * Some have subtypes: /akn/gh/act/ca/YYYY/NNN/eng@DATE or /akn/gh/act/pndcl/YYYY/NNN/eng@DATE
+ * Some have subtypes: /akn/gh/act/ca/YYYY/NNN/eng@DATE or /akn/gh/act/pndcl/YYYY/NNN/eng@DATE,
+ * and subsidiary legislation: /akn/gh/act/li/YYYY/NNN/eng@DATE (also ci/, ei/)
  */
 export function parseActIndex(html: string): ActIndexResult {
   const $ = cheerio.load(html);
@@ -46,15 +106,16 @@ export function parseActIndex(html: string): ActIndexResult {
 
     if (!text || !href) return;
 
-    // Extract year and act number from AKN URL patterns:
+    // Extract subtype, year and number from AKN URL patterns:
     //   /akn/gh/act/YYYY/NNN/eng@DATE
     //   /akn/gh/act/ca/YYYY/NNN/eng@DATE
-    //   /akn/gh/act/pndcl/YYYY/NNN/eng@DATE
-    const urlMatch = href.match(/\/akn\/gh\/act\/(?:[a-z]+\/)?(\d{4})\/(\d+)\/eng@/);
+    //   /akn/gh/act/li/YYYY/NNN/eng@DATE
+    const urlMatch = href.match(/\/akn\/gh\/act\/(?:([a-z]+)\/)?(\d{4})\/(\d+)\/eng@/);
     if (!urlMatch) return;
 
-    const year = parseInt(urlMatch[1], 10);
-    const actNumber = parseInt(urlMatch[2], 10);
+    const subtype = urlMatch[1];
+    const year = parseInt(urlMatch[2], 10);
+    const actNumber = parseInt(urlMatch[3], 10);
 
     // Extract clean title from link text
     const title = text.replace(/\s+/g, ' ').trim();
@@ -64,6 +125,7 @@ export function parseActIndex(html: string): ActIndexResult {
       year,
       actNumber,
       url: href,
+      ...(subtype ? { subtype } : {}),
     });
   });
 
@@ -76,11 +138,11 @@ export function parseActIndex(html: string): ActIndexResult {
   // Also check for a page=N+1 link as a fallback (GhanaLII uses numbered pagination)
   const hasNumberedNext = $('a[href*="page="]').length > 0 && entries.length > 0;
 
-  // Deduplicate by year+actNumber
+  // Deduplicate by subtype+year+actNumber — L.I. 104 and C.I. 104 of a year are different works
   const seen = new Set<string>();
   const deduped: ActIndexEntry[] = [];
   for (const entry of entries) {
-    const key = `${entry.year}-${entry.actNumber}`;
+    const key = `${entry.subtype ?? ''}-${entry.year}-${entry.actNumber}`;
     if (!seen.has(key)) {
       seen.add(key);
       deduped.push(entry);
@@ -101,6 +163,28 @@ export interface ParsedProvision {
   section: string;
   title: string;
   content: string;
+  /** Schedule tables as structured rows */
+  metadata?: { tables: ParsedTable[] };
+  /** Subsections and the paragraphs under them */
+  children?: ParsedProvisionUnit[];
+}
+
+export type ProvisionUnitLevel = 'subsection' | 'paragraph' | 'subparagraph';
+
+/** A subsection (1), paragraph (a) or subparagraph (i) of a section. */
+export interface ParsedProvisionUnit {
+  level: ProvisionUnitLevel;
+  /** Number without brackets: "2", "a", "ii" */
+  num: string;
+  /** Full text of the unit, including its own children */
+  content: string;
+  children?: ParsedProvisionUnit[];
+}
+
+/** A table in a schedule: fee tables, forms, lists of members or sectors. */
+export interface ParsedTable {
+  header?: string[];
+  rows: string[][];
 }
 
 export interface ParsedDefinition {
@@ -111,7 +195,7 @@ export interface ParsedDefinition {
 
 export interface ParsedAct {
   id: string;
-  type: 'act';
+  type: LegislationType;
   title: string;
   short_name: string;
   act_number: number;
@@ -119,12 +203,22 @@ export interface ParsedAct {
   status: 'in_force';
   issued_date: string;
   url: string;
+  expression_date?: string;
   provisions: ParsedProvision[];
+  historical_versions?: ParsedVersion[];
   definitions: ParsedDefinition[];
 }
 
+/** Provisions of an older point-in-time expression of the same act. */
+export interface ParsedVersion {
+  expression_date: string;
+  provisions: ParsedProvision[];
+}
+
 /**
- * Parse a GhanaLII act content page into a structured act with provisions.
+ * Parse a GhanaLII act or instrument content page into a structured document with provisions.
+ * Instruments (subtype li/ci/ei) and pre-1992 decrees and laws (pndcl, nrcd, ...)
+ * get their own ID series and document type; they use the same AKN section markup as Acts.
  *
  * GhanaLII uses Akoma Ntoso markup:
  *   <section class="akn-section" id="...sec_N">
@@ -141,7 +235,8 @@ export function parseActContent(
   html: string,
   year: number,
   actNumber: number,
-  actTitle: string
+  actTitle: string,
+  subtype?: string,
 ): ParsedAct {
   const $ = cheerio.load(html);
   const provisions: ParsedProvision[] = [];
@@ -154,19 +249,23 @@ export function parseActContent(
 
   // Extract the issued date from the URL (if available in the page's AKN metadata)
   let issuedDate = `${year}-01-01`;
+  let expressionDate: string | undefined;
   const trackProps = $('script#track-page-properties');
   if (trackProps.length > 0) {
     try {
       const props = JSON.parse(trackProps.text());
       if (props.expression_frbr_uri) {
         const dateMatch = props.expression_frbr_uri.match(/@(\d{4}-\d{2}-\d{2})/);
-        if (dateMatch) issuedDate = dateMatch[1];
+        if (dateMatch) {
+          issuedDate = dateMatch[1];
+          expressionDate = dateMatch[1];
+        }
       }
     } catch { /* ignore parse errors */ }
   }
 
   // Build the canonical URL
-  const canonicalUrl = `https://ghalii.org/akn/gh/act/${year}/${actNumber}`;
+  const canonicalUrl = `https://ghalii.org/akn/gh/act/${subtype ? `${subtype}/` : ''}${year}/${actNumber}`;
 
   // Track current part/chapter context from subpart headings
   let currentPart: string | undefined;
@@ -178,6 +277,8 @@ export function parseActContent(
   if (sections.length > 0) {
     sections.each((_i, el) => {
       const section = $(el);
+      // Sections reproduced inside a schedule belong to the schedule
+      if (section.closest('.akn-attachment').length > 0) return;
       const sectionId = section.attr('id') || section.attr('data-eid') || '';
 
       // Extract section number from the id (e.g., "subpart_nn_1__sec_1" -> "1")
@@ -201,36 +302,8 @@ export function parseActContent(
         if (/^CHAPTER\s/i.test(partHeading)) currentChapter = partHeading;
       }
 
-      // Extract content: get all text from subsections and paragraphs
-      const contentParts: string[] = [];
-      section.find('section.akn-subsection').each((_j, sub) => {
-        const subsection = $(sub);
-        const num = subsection.children('.akn-num').text().trim();
-        const text = subsection.find('.akn-p, .akn-content, .akn-intro, .akn-listIntroduction')
-          .map((_k, p) => $(p).text().replace(/\s+/g, ' ').trim())
-          .get()
-          .filter(t => t)
-          .join(' ');
-
-        if (text) {
-          contentParts.push(num ? `${num} ${text}` : text);
-        }
-      });
-
-      // If no subsections found, get direct content
-      if (contentParts.length === 0) {
-        const directContent = section.find('.akn-p, .akn-content').not('section.akn-subsection .akn-p, section.akn-subsection .akn-content')
-          .map((_j, p) => $(p).text().replace(/\s+/g, ' ').trim())
-          .get()
-          .filter(t => t)
-          .join(' ');
-
-        if (directContent) {
-          contentParts.push(directContent);
-        }
-      }
-
-      const content = contentParts.join(' ').replace(/\s+/g, ' ').trim();
+      const content = provisionText($, section);
+      const children = parseUnits($, section);
 
       if (content) {
         provisions.push({
@@ -240,6 +313,7 @@ export function parseActContent(
           section: sectionNum,
           title: sectionTitle,
           content,
+          ...(children.length > 0 ? { children } : {}),
         });
 
         // Check for definitions section
@@ -326,9 +400,11 @@ export function parseActContent(
     }
   }
 
+  provisions.push(...parseSchedules($));
+
   return {
-    id: `act-${actNumber}-${year}`,
-    type: 'act',
+    id: legislationId(year, actNumber, subtype),
+    type: legislationType(subtype),
     title,
     short_name: shortName,
     act_number: actNumber,
@@ -336,11 +412,448 @@ export function parseActContent(
     status: 'in_force',
     issued_date: issuedDate,
     url: canonicalUrl,
+    expression_date: expressionDate,
     provisions,
     definitions,
   };
 }
 
+/**
+ * Text of a section: each subsection prefixed with its number
+ * ("(1) ... (2) ..."), or the direct content when there are no subsections.
+ */
+function provisionText($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): string {
+  const contentParts: string[] = [];
+  element.find('section.akn-subsection').each((_j, sub) => {
+    const subsection = $(sub);
+    const num = subsection.children('.akn-num').text().trim();
+    const text = subsection.find('.akn-p, .akn-content, .akn-intro, .akn-listIntroduction')
+      .map((_k, p) => $(p).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(t => t)
+      .join(' ');
+
+    if (text) {
+      contentParts.push(num ? `${num} ${text}` : text);
+    }
+  });
+
+  // If no subsections found, get direct content
+  if (contentParts.length === 0) {
+    const directContent = element.find('.akn-p, .akn-content').not('section.akn-subsection .akn-p, section.akn-subsection .akn-content')
+      .map((_j, p) => $(p).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(t => t)
+      .join(' ');
+
+    if (directContent) {
+      contentParts.push(directContent);
+    }
+  }
+
+  return contentParts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+const UNIT_LEVELS: Record<string, ProvisionUnitLevel> = {
+  'akn-subsection': 'subsection',
+  'akn-paragraph': 'paragraph',
+  'akn-subparagraph': 'subparagraph',
+};
+
+const UNIT_SELECTOR = Object.keys(UNIT_LEVELS).map(cls => `section.${cls}`).join(', ');
+
+/**
+ * The subsection/paragraph/subparagraph tree directly under a section or
+ * unit. Units without an akn-num ("(2)", "(b)") cannot be addressed and are skipped.
+ */
+function parseUnits($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): ParsedProvisionUnit[] {
+  const units: ParsedProvisionUnit[] = [];
+  element.find(UNIT_SELECTOR).each((_i, el) => {
+    const unit = $(el);
+    // Deeper units are collected by their own parent
+    if (unit.parentsUntil(element).filter(UNIT_SELECTOR).length > 0) return;
+
+    const level = Object.entries(UNIT_LEVELS).find(([cls]) => unit.hasClass(cls))?.[1];
+    const num = unit.children('.akn-num').first().text().replace(/[()\s.]/g, '');
+    const content = blockText($, unit);
+    if (!level || !num || !content) return;
+
+    const children = parseUnits($, unit);
+    units.push({ level, num, content, ...(children.length > 0 ? { children } : {}) });
+  });
+  return units;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schedule Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SCHEDULE_ORDINALS: Record<string, number> = {
+  FIRST: 1, SECOND: 2, THIRD: 3, FOURTH: 4, FIFTH: 5, SIXTH: 6,
+  SEVENTH: 7, EIGHTH: 8, NINTH: 9, TENTH: 10, ELEVENTH: 11, TWELFTH: 12,
+};
+
+/** "FIRST SCHEDULE" → 1, "Schedule 3" → 3; null for "SCHEDULE" or an unnumbered annex. */
+function scheduleNumber(heading: string): number | null {
+  const ordinal = heading.match(/\b(FIRST|SECOND|THIRD|FOURTH|FIFTH|SIXTH|SEVENTH|EIGHTH|NINTH|TENTH|ELEVENTH|TWELFTH)\s+SCHEDULE\b/i);
+  if (ordinal) return SCHEDULE_ORDINALS[ordinal[1].toUpperCase()] ?? null;
+  const numbered = heading.match(/\bSCHEDULE\s+(\d+)\b/i);
+  return numbered ? parseInt(numbered[1], 10) : null;
+}
+
+function cellText($: cheerio.CheerioAPI, cell: any): string {
+  return $(cell).text().replace(/\s+/g, ' ').trim();
+}
+
+/** Table rows as cell text; a leading row of <th> cells becomes the header. */
+function parseTable($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>): ParsedTable {
+  const rows: string[][] = [];
+  let header: string[] | undefined;
+  table.find('tr').each((_i, tr) => {
+    const row = $(tr);
+    const cells = row.children('th, td').map((_j, cell) => cellText($, cell)).get();
+    if (cells.every(c => !c)) return;
+    if (!header && rows.length === 0 && row.children('td').length === 0) {
+      header = cells;
+    } else {
+      rows.push(cells);
+    }
+  });
+  return header ? { header, rows } : { rows };
+}
+
+/**
+ * Text of a schedule or unit element with tables flattened to one line per row
+ * ("Item | Fee (GH¢); Registration | 500"), so fee tables stay searchable.
+ */
+function blockText($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): string {
+  const copy = element.clone();
+  copy.find('table').each((_i, table) => {
+    const { header, rows } = parseTable($, $(table));
+    const lines = [...(header ? [header] : []), ...rows].map(cells => cells.join(' | '));
+    $(table).replaceWith($('<p>').text(` ${lines.join('; ')} `));
+  });
+  copy.find('h1, h2, h3, h4, h5, h6, p, li, div, section, br, .akn-num').each((_i, el) => {
+    $(el).append(' ');
+  });
+  return copy.text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse the Schedules of an Act into provisions. GhanaLII renders each as an
+ * AKN attachment:
+ *   <div class="akn-attachment" id="att_1">
+ *     <h2 class="akn-heading">FIRST SCHEDULE</h2>
+ *     <h2 class="akn-subheading">Membership of the Board</h2>
+ *     <section class="akn-paragraph" id="att_1__para_1">...</section>
+ *     <table>...</table>
+ *
+ * Each schedule becomes "sch1" with its whole text; its numbered paragraphs
+ * also become "sch1-para3". Tables are kept as rows in the provision metadata.
+ */
+function parseSchedules($: cheerio.CheerioAPI): ParsedProvision[] {
+  const provisions: ParsedProvision[] = [];
+  const used = new Set<number>();
+
+  $('.akn-attachment').each((index, el) => {
+    const attachment = $(el);
+    // Nested attachments (a form inside a schedule) stay part of their schedule
+    if (attachment.parents('.akn-attachment').length > 0) return;
+
+    const heading = attachment.find('.akn-heading').first().text().replace(/\s+/g, ' ').trim();
+    const subheading = attachment.find('.akn-subheading').first().text().replace(/\s+/g, ' ').trim();
+
+    let number = scheduleNumber(heading) ?? index + 1;
+    while (used.has(number)) number++;
+    used.add(number);
+
+    const ref = `sch${number}`;
+    const title = [heading || `Schedule ${number}`, subheading].filter(t => t).join(' — ');
+    const content = blockText($, attachment);
+    if (!content) return;
+
+    const tables = attachment.find('table').map((_i, table) => parseTable($, $(table))).get() as ParsedTable[];
+    provisions.push({
+      provision_ref: ref,
+      section: ref,
+      title,
+      content,
+      ...(tables.length > 0 ? { metadata: { tables } } : {}),
+    });
+
+    attachment.find('section.akn-paragraph').each((_i, para) => {
+      const paragraph = $(para);
+      if (paragraph.parents('section.akn-paragraph').length > 0) return;
+      const paraId = paragraph.attr('id') || paragraph.attr('data-eid') || '';
+      const paraMatch = paraId.match(/__para_(\w+)$/);
+      if (!paraMatch) return;
+
+      const paraContent = blockText($, paragraph);
+      if (!paraContent) return;
+      const paraTables = paragraph.find('table').map((_j, table) => parseTable($, $(table))).get() as ParsedTable[];
+      const paraRef = `${ref}-para${paraMatch[1]}`;
+      provisions.push({
+        provision_ref: paraRef,
+        section: paraRef,
+        title: paragraph.children('h3, h4').first().text().replace(/\s+/g, ' ').trim() || title,
+        content: paraContent,
+        ...(paraTables.length > 0 ? { metadata: { tables: paraTables } } : {}),
+      });
+    });
+  });
+
+  return provisions;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Point-in-time expressions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * List the expression dates (points in time) GhanaLII links to for an act.
+ * The act page links each consolidated version as /akn/gh/act/YYYY/NNN/eng@DATE
+ * (with the subtype, e.g. /akn/gh/act/li/YYYY/NNN/eng@DATE, for instruments).
+ * Returns unique dates in ascending order.
+ */
+export function parseExpressionDates(html: string, year: number, actNumber: number, subtype?: string): string[] {
+  const $ = cheerio.load(html);
+  const workPattern = new RegExp(`/akn/gh/act/${subtype ? `${subtype}/` : ''}${year}/${actNumber}/eng@(\\d{4}-\\d{2}-\\d{2})`);
+  const dates = new Set<string>();
+
+  $('a[href*="/eng@"], option[value*="/eng@"]').each((_i, el) => {
+    const target = $(el).attr('href') ?? $(el).attr('value') ?? '';
+    const match = target.match(workPattern);
+    if (match) dates.add(match[1]);
+  });
+
+  return [...dates].sort();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Judgment Index Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface JudgmentIndexEntry {
+  title: string;
+  court: string;
+  year: number;
+  number: number;
+  url: string;
+}
+
+export interface JudgmentIndexResult {
+  entries: JudgmentIndexEntry[];
+  hasNextPage: boolean;
+}
+
+/**
+ * Parse a GhanaLII judgment listing page for one court.
+ * Links follow the Akoma Ntoso pattern: /akn/gh/judgment/ghasc/YYYY/NNN/eng@DATE
+ */
+export function parseJudgmentIndex(html: string, court: string): JudgmentIndexResult {
+  const $ = cheerio.load(html);
+  const entries: JudgmentIndexEntry[] = [];
+  const seen = new Set<string>();
+  const courtCode = court.toLowerCase();
+
+  $(`a[href*="/akn/gh/judgment/${courtCode}/"]`).each((_i, el) => {
+    const link = $(el);
+    const href = link.attr('href') ?? '';
+    const text = link.text().replace(/\s+/g, ' ').trim();
+    if (!text || !href) return;
+
+    const urlMatch = href.match(/\/akn\/gh\/judgment\/[a-z]+\/(\d{4})\/(\d+)\/eng@/);
+    if (!urlMatch) return;
+
+    const key = `${urlMatch[1]}-${urlMatch[2]}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    entries.push({
+      title: text,
+      court: court.toUpperCase(),
+      year: parseInt(urlMatch[1], 10),
+      number: parseInt(urlMatch[2], 10),
+      url: href,
+    });
+  });
+
+  const hasNextPage = $('a[href*="page="]').filter((_i, el) => {
+    const text = $(el).text().trim().toLowerCase();
+    return text === 'next' || text === '>' || text === '\u203a' || text.includes('next');
+  }).length > 0;
+
+  return { entries, hasNextPage };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Judgment Content Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ParsedJudgment {
+  id: string;
+  court: string;
+  neutral_citation: string;
+  case_number?: string;
+  title: string;
+  parties: string[];
+  judges: string[];
+  decision_date?: string;
+  url: string;
+  summary?: string;
+  content: string;
+}
+
+/**
+ * Parse a GhanaLII judgment page.
+ *
+ * Metadata sits in a definition list (<dt>Citation</dt><dd>[2020] GHASC 12</dd>,
+ * Judges, Judgment date, Case number); the judgment text in the AKN body
+ * (<div class="akn-judgment">) or, for scanned judgments, the document content pane.
+ */
+export function parseJudgmentContent(html: string, entry: JudgmentIndexEntry): ParsedJudgment {
+  const $ = cheerio.load(html);
+
+  const metadata = new Map<string, string>();
+  $('dt').each((_i, el) => {
+    const label = $(el).text().replace(/\s+/g, ' ').trim().toLowerCase();
+    const value = $(el).next('dd').text().replace(/\s+/g, ' ').trim();
+    if (label && value) metadata.set(label, value);
+  });
+
+  const pageTitle = $('h1').first().text().replace(/\s+/g, ' ').trim() || entry.title;
+  const neutralCitation = metadata.get('citation')?.match(/\[\d{4}\]\s+[A-Z]+\s+\d+/)?.[0]
+    ?? `[${entry.year}] ${entry.court} ${entry.number}`;
+
+  // "Republic v Mensah and Others (J3/2/2020) [2020] GHASC 12 (4 March 2020)" → case name
+  const caseName = pageTitle
+    .replace(/\s*\[\d{4}\]\s+[A-Z]+\s+\d+.*$/, '')
+    .replace(/\s*\([^()]*\)\s*$/, '')
+    .trim();
+
+  const judges = (metadata.get('judges') ?? metadata.get('judge') ?? '')
+    .split(/\s*(?:,|;|\band\b)\s*/)
+    .map(judge => judge.trim())
+    .filter(judge => judge.length > 0);
+
+  const dateText = metadata.get('judgment date') ?? metadata.get('date');
+  const parsedDate = dateText ? new Date(`${dateText} UTC`) : null;
+  const urlDate = entry.url.match(/eng@(\d{4}-\d{2}-\d{2})/)?.[1];
+  const decisionDate = parsedDate && !Number.isNaN(parsedDate.getTime())
+    ? parsedDate.toISOString().slice(0, 10)
+    : urlDate;
+
+  const body = $('.akn-judgment, .document-content, #document-content').first();
+  const content = (body.length > 0 ? body : $('main'))
+    .text()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const summary = $('.flynote, .akn-blockContainer.summary, .document-summary').first().text().replace(/\s+/g, ' ').trim();
+
+  return {
+    id: `${entry.court.toLowerCase()}-${entry.year}-${entry.number}`,
+    court: entry.court,
+    neutral_citation: neutralCitation,
+    case_number: metadata.get('case number'),
+    title: caseName || entry.title,
+    parties: parseParties(caseName),
+    judges,
+    decision_date: decisionDate,
+    url: `https://ghalii.org/akn/gh/judgment/${entry.court.toLowerCase()}/${entry.year}/${entry.number}`,
+    summary: summary || undefined,
+    content,
+  };
+}
+
+/** "Republic v Mensah and Others" → ["Republic", "Mensah and Others"] */
+function parseParties(caseName: string): string[] {
+  const sides = caseName.split(/\s+(?:v|vs)\.?\s+/i).map(side => side.trim()).filter(Boolean);
+  return sides.length >= 2 ? sides : [];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Preparatory Works Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type PreparatoryWorkType = 'memorandum' | 'hansard' | 'committee_report' | 'bill';
+
+export interface ParsedPreparatoryWork {
+  id: string;
+  type: PreparatoryWorkType;
+  title: string;
+  /** The resulting Act as cited ("Data Protection Act, 2012 (Act 843)") or its ID */
+  act: string;
+  bill?: string;
+  date?: string;
+  url?: string;
+  source_file: string;
+  content: string;
+}
+
+const PREPARATORY_WORK_TYPES: Record<string, PreparatoryWorkType> = {
+  'memorandum': 'memorandum',
+  'explanatory memorandum': 'memorandum',
+  'hansard': 'hansard',
+  'debate': 'hansard',
+  'committee report': 'committee_report',
+  'committee_report': 'committee_report',
+  'report': 'committee_report',
+  'bill': 'bill',
+};
+
+/**
+ * Parse a local preparatory works file.
+ *
+ * Files open with "Key: value" header lines up to the first blank line
+ * (Type, Title, Act, Bill, Date, URL); Type, Title and Act are required.
+ * HTML files (.html/.htm) have their markup stripped; other files are plain text.
+ */
+export function parsePreparatoryWork(raw: string, fileName: string): ParsedPreparatoryWork {
+  const normalized = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const headerEnd = normalized.search(/\n\s*\n/);
+  const headerBlock = headerEnd === -1 ? normalized : normalized.slice(0, headerEnd);
+  const body = headerEnd === -1 ? '' : normalized.slice(headerEnd);
+
+  const header = new Map<string, string>();
+  for (const line of headerBlock.split('\n')) {
+    const match = line.match(/^\s*([A-Za-z ]+?)\s*:\s*(.+?)\s*$/);
+    if (match) header.set(match[1]!.toLowerCase(), match[2]!);
+  }
+
+  const rawType = header.get('type')?.toLowerCase();
+  const type = rawType ? PREPARATORY_WORK_TYPES[rawType] : undefined;
+  if (!type) {
+    throw new Error(`${fileName}: Type must be one of memorandum, hansard, committee report, bill`);
+  }
+  const title = header.get('title');
+  const act = header.get('act');
+  if (!title || !act) {
+    throw new Error(`${fileName}: Title and Act headers are required`);
+  }
+
+  const isHtml = /\.html?$/i.test(fileName);
+  const content = (isHtml ? cheerio.load(body).text() : body)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+
+  const dateText = header.get('date');
+  const parsedDate = dateText ? new Date(`${dateText} UTC`) : null;
+
+  return {
+    id: fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    type,
+    title,
+    act,
+    bill: header.get('bill'),
+    date: parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toISOString().slice(0, 10) : undefined,
+    url: header.get('url'),
+    source_file: fileName,
+    content,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -8,6 +8,7 @@
  */
 
 import type { ParsedCitation, CitationFormat } from '../types/index.js';
+import { SERIES_LABELS } from './parser.js';
 
 export function formatCitation(
   parsed: ParsedCitation,
@@ -18,20 +19,24 @@ export function formatCitation(
   }
 
   const pinpoint = buildPinpoint(parsed);
-  const actSuffix = parsed.act_number ? ` (Act ${parsed.act_number})` : '';
+  const series = SERIES_LABELS[parsed.type as keyof typeof SERIES_LABELS] ?? 'Act';
+  const actSuffix = parsed.act_number ? ` (${series} ${parsed.act_number})` : '';
+  const titled = `${parsed.title ?? ''} ${parsed.year ?? ''}`.trim();
+  // "Section 3, PNDCL 152" when only the series number was cited
+  const work = titled ? `${titled}${actSuffix}` : `${series} ${parsed.act_number ?? ''}`.trim();
 
   switch (format) {
     case 'full':
-      return `Section ${pinpoint}, ${parsed.title ?? ''} ${parsed.year ?? ''}${actSuffix}`.trim();
+      return `Section ${pinpoint}, ${work}`;
 
     case 'short':
-      return `s. ${pinpoint}, ${parsed.title ?? ''} ${parsed.year ?? ''}`.trim();
+      return `s. ${pinpoint}, ${titled || work}`;
 
     case 'pinpoint':
       return `s. ${pinpoint}`;
 
     default:
-      return `Section ${pinpoint}, ${parsed.title ?? ''} ${parsed.year ?? ''}${actSuffix}`.trim();
+      return `Section ${pinpoint}, ${work}`;
   }
 }
 
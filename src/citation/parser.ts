@@ -6,12 +6,27 @@
  *   "s. 1, DPA 2012"
  *   "Data Protection Act 2012, s. 1"
  *   "act-843-2012, s. 1"
+ *   "Regulation 3, Data Protection Regulations 2020 (L.I. 2409)"
+ *   "li-2409-2020, r. 3"
+ *   "Section 3, PNDCL 152", "NRCD 323, s. 1"
  */
 
-import type { ParsedCitation } from '../types/index.js';
+import type { DocumentType, ParsedCitation } from '../types/index.js';
 
-// Full citation: "Section 1, Data Protection Act 2012 (Act 843)"
-const FULL_WITH_ACT_NUMBER = /^(?:Section|s\.?)\s+(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*,?\s+(.+?)\s+(\d{4})\s*\(Act\s+(\d+)\)\s*$/i;
+// Series labels: "Act", "L.I.", "C.I.", "E.I.", and the pre-1992 "C.A.", "NLCD", "NRCD", "SMCD", "AFRCD", "PNDCL"
+const SERIES = String.raw`Act|L\.\s*I\.|C\.\s*I\.|E\.\s*I\.|C\.\s*A\.|N\.?\s*L\.?\s*C\.?\s*D\.?|N\.?\s*R\.?\s*C\.?\s*D\.?|S\.?\s*M\.?\s*C\.?\s*D\.?|A\.?\s*F\.?\s*R\.?\s*C\.?\s*D\.?|P\.?\s*N\.?\s*D\.?\s*C\.?\s*L\.?`;
+
+// Document ID prefixes: "act-843-2012", "li-2409-2020", "pndcl-152-1985"
+const ID_PREFIXES = 'act|li|ci|ei|ca|nlcd|nrcd|smcd|afrcd|pndcl';
+
+// Pinpoint: "1", "1(2)(a)"
+const PIN = String.raw`\d+(?:\(\d+\))*(?:\([a-z]\))*`;
+
+// Full citation: "Section 1, Data Protection Act 2012 (Act 843)" or "Regulation 3, ... 2020 (L.I. 2409)"
+const FULL_WITH_ACT_NUMBER = new RegExp(
+  String.raw`^(?:Section|Regulation|s\.?|r\.?)\s+(${PIN})\s*,?\s+(.+?)\s+(\d{4})\s*\((${SERIES})\s*(\d+)\)\s*$`,
+  'i',
+);
 
 // Full citation without act number: "Section 1, Data Protection Act 2012"
 const FULL_CITATION = /^(?:Section|s\.?)\s+(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*,?\s+(.+?)\s+(\d{4})\s*$/i;
@@ -20,31 +35,81 @@ const FULL_CITATION = /^(?:Section|s\.?)\s+(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*,?\
 const SHORT_CITATION = /^s\.?\s+(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s+(.+?)\s+(\d{4})$/i;
 
 // Trailing section with Act number: "Data Protection Act 2012 (Act 843), s. 1"
-const TRAILING_WITH_ACT_NUMBER = /^(.+?)\s+(\d{4})\s*\(Act\s+(\d+)\)\s*,?\s*(?:Section|s\.?)\s*(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*$/i;
+const TRAILING_WITH_ACT_NUMBER = new RegExp(
+  String.raw`^(.+?)\s+(\d{4})\s*\((${SERIES})\s*(\d+)\)\s*,?\s*(?:Section|Regulation|s\.?|r\.?)\s*(${PIN})\s*$`,
+  'i',
+);
 
 // Trailing section without Act number: "Data Protection Act 2012, s. 1"
 const TRAILING_SECTION = /^(.+?)\s+(\d{4})\s*,?\s*(?:Section|s\.?)\s*(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*$/i;
 
-// ID-based: "act-843-2012, s. 1"
-const ID_BASED = /^(act-\d+-\d{4})\s*,?\s*(?:Section|s\.?)\s*(\d+(?:\(\d+\))*(?:\([a-z]\))*)\s*$/i;
+// Series number alone: "Section 3, PNDCL 152", "s. 1 of NRCD 323"
+const LEADING_SERIES_NUMBER = new RegExp(
+  String.raw`^(?:Section|Regulation|s\.?|r\.?)\s+(${PIN})\s*(?:,|of)?\s*(?:the\s+)?\(?(${SERIES})\s*(\d+)\)?\s*$`,
+  'i',
+);
+
+// Series number alone, trailing section: "PNDCL 152, s. 3"
+const TRAILING_SERIES_NUMBER = new RegExp(
+  String.raw`^\(?(${SERIES})\s*(\d+)\)?\s*,?\s*(?:Section|Regulation|s\.?|r\.?)\s*(${PIN})\s*$`,
+  'i',
+);
+
+// ID-based: "act-843-2012, s. 1", "li-2409-2020, r. 3", "pndcl-152-1985, s. 3"
+const ID_BASED = new RegExp(
+  String.raw`^((?:${ID_PREFIXES})-\d+-\d{4})\s*,?\s*(?:Section|Regulation|s\.?|r\.?)\s*(${PIN})\s*$`,
+  'i',
+);
 
 // Section with subsection: "1(2)(a)"
 const SECTION_REF = /^(\d+)(?:\((\d+)\))?(?:\(([a-z])\))?$/;
 
+/** Citation series by document type: "(Act 843)", "(L.I. 2409)", "(PNDCL 152)". */
+export const SERIES_LABELS: Record<DocumentType, string> = {
+  act: 'Act',
+  legislative_instrument: 'L.I.',
+  constitutional_instrument: 'C.I.',
+  executive_instrument: 'E.I.',
+  constituent_assembly_act: 'C.A.',
+  nlc_decree: 'NLCD',
+  nrc_decree: 'NRCD',
+  smc_decree: 'SMCD',
+  afrc_decree: 'AFRCD',
+  pndc_law: 'PNDCL',
+};
+
+const SERIES_BY_KEY: Record<string, DocumentType> = {
+  ACT: 'act',
+  LI: 'legislative_instrument',
+  CI: 'constitutional_instrument',
+  EI: 'executive_instrument',
+  CA: 'constituent_assembly_act',
+  NLCD: 'nlc_decree',
+  NRCD: 'nrc_decree',
+  SMCD: 'smc_decree',
+  AFRCD: 'afrc_decree',
+  PNDCL: 'pndc_law',
+};
+
+/** "L.I." / "li" → legislative_instrument, "P.N.D.C.L." / "pndcl" → pndc_law */
+function seriesType(label: string): DocumentType {
+  return SERIES_BY_KEY[label.replace(/[.\s]/g, '').toUpperCase()] ?? 'act';
+}
+
 export function parseCitation(citation: string): ParsedCitation {
   const trimmed = citation.trim();
 
   // ID-based: "act-843-2012, s. 1"
   let match = trimmed.match(ID_BASED);
   if (match) {
-    const idParts = match[1].match(/^act-(\d+)-(\d{4})$/i);
+    const idParts = match[1].match(new RegExp(`^(${ID_PREFIXES})-(\\d+)-(\\d{4})$`, 'i'));
     if (idParts) {
       return parseSection(
         match[2],
         undefined,
+        parseInt(idParts[3], 10),
         parseInt(idParts[2], 10),
-        parseInt(idParts[1], 10),
-        'act'
+        seriesType(idParts[1])
       );
     }
   }
@@ -52,7 +117,19 @@ export function parseCitation(citation: string): ParsedCitation {
   // Full with Act number: "Section 1, Data Protection Act 2012 (Act 843)"
   match = trimmed.match(FULL_WITH_ACT_NUMBER);
   if (match) {
-    return parseSection(match[1], match[2], parseInt(match[3], 10), parseInt(match[4], 10), 'act');
+    return parseSection(match[1], match[2], parseInt(match[3], 10), parseInt(match[5], 10), seriesType(match[4]));
+  }
+
+  // Series number alone: "Section 3, PNDCL 152"
+  match = trimmed.match(LEADING_SERIES_NUMBER);
+  if (match) {
+    return parseSection(match[1], undefined, undefined, parseInt(match[3], 10), seriesType(match[2]));
+  }
+
+  // Series number alone, trailing section: "PNDCL 152, s. 3"
+  match = trimmed.match(TRAILING_SERIES_NUMBER);
+  if (match) {
+    return parseSection(match[3], undefined, undefined, parseInt(match[2], 10), seriesType(match[1]));
   }
 
   // Full without Act number: "Section 1, Data Protection Act 2012"
@@ -70,7 +147,7 @@ export function parseCitation(citation: string): ParsedCitation {
   // Trailing with Act number: "Data Protection Act 2012 (Act 843), s. 1"
   match = trimmed.match(TRAILING_WITH_ACT_NUMBER);
   if (match) {
-    return parseSection(match[4], match[1], parseInt(match[2], 10), parseInt(match[3], 10), 'act');
+    return parseSection(match[5], match[1], parseInt(match[2], 10), parseInt(match[4], 10), seriesType(match[3]));
   }
 
   // Trailing without Act number: "Data Protection Act 2012, s. 1"
@@ -89,7 +166,7 @@ export function parseCitation(citation: string): ParsedCitation {
 function parseSection(
   sectionStr: string,
   title: string | undefined,
-  year: number,
+  year: number | undefined,
   actNumber: number | undefined,
   type: string
 ): ParsedCitation {
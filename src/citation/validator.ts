@@ -6,8 +6,44 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import type { ValidationResult } from '../types/index.js';
-import { parseCitation } from './parser.js';
+import type { DocumentType, ParsedCitation, ValidationResult } from '../types/index.js';
+import { resolveInstrumentNumber } from '../utils/statute-id.js';
+import { parseCitation, SERIES_LABELS } from './parser.js';
+
+function seriesLabel(type: string): string {
+  return SERIES_LABELS[type as keyof typeof SERIES_LABELS] ?? 'Act';
+}
+
+export interface CitedDocument {
+  id: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * The document a parsed citation names: by series number, then by title match.
+ */
+export function findCitedDocument(db: Database, parsed: ParsedCitation): CitedDocument | undefined {
+  let doc: CitedDocument | undefined;
+
+  if (parsed.act_number) {
+    // "PNDCL 152" without a year resolves when the number is unique in its series
+    const documentId = resolveInstrumentNumber(db, parsed.type as DocumentType, parsed.act_number, parsed.year);
+    doc = documentId
+      ? db.prepare(
+        "SELECT id, title, status FROM legal_documents WHERE id = ?"
+      ).get(documentId) as CitedDocument | undefined
+      : undefined;
+  }
+
+  if (!doc && parsed.title) {
+    doc = db.prepare(
+      "SELECT id, title, status FROM legal_documents WHERE title LIKE ? LIMIT 1"
+    ).get(`%${parsed.title}%${parsed.year ?? ''}%`) as CitedDocument | undefined;
+  }
+
+  return doc;
+}
 
 export function validateCitation(db: Database, citation: string): ValidationResult {
   const parsed = parseCitation(citation);
@@ -22,24 +58,11 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     };
   }
 
-  // Look up document by act number first, then by title match
-  let doc: { id: string; title: string; status: string } | undefined;
-
-  if (parsed.act_number) {
-    doc = db.prepare(
-      "SELECT id, title, status FROM legal_documents WHERE act_number = ? AND year = ? LIMIT 1"
-    ).get(parsed.act_number, parsed.year) as { id: string; title: string; status: string } | undefined;
-  }
-
-  if (!doc && parsed.title) {
-    doc = db.prepare(
-      "SELECT id, title, status FROM legal_documents WHERE title LIKE ? LIMIT 1"
-    ).get(`%${parsed.title}%${parsed.year ?? ''}%`) as { id: string; title: string; status: string } | undefined;
-  }
+  const doc = findCitedDocument(db, parsed);
 
   if (!doc) {
     const identifier = parsed.act_number
-      ? `Act ${parsed.act_number} (${parsed.year})`
+      ? `${seriesLabel(parsed.type)} ${parsed.act_number}${parsed.year ? ` (${parsed.year})` : ''}`
       : `${parsed.title} ${parsed.year}`;
     return {
       citation: parsed,
@@ -55,41 +78,14 @@ export function validateCitation(db: Database, citation: string): ValidationResu
 
   // Check provision existence
   let provisionExists = false;
-  if (parsed.section) {
+  const number = parsed.section;
+  if (number) {
     const pinpoint = [
-      parsed.section,
+      number,
       parsed.subsection ? `(${parsed.subsection})` : '',
       parsed.paragraph ? `(${parsed.paragraph})` : '',
     ].join('');
-    const provisionRef = `s${pinpoint}`;
-    const allowPrefixMatch = parsed.subsection == null && parsed.paragraph == null;
-
-    const prov = db.prepare(
-      `SELECT 1
-       FROM legal_provisions
-       WHERE document_id = ?
-         AND (
-           provision_ref = ?
-           OR section = ?
-           OR REPLACE(REPLACE(section, '((', '('), '))', ')') = ?
-           OR (
-             ? = 1
-             AND (
-               provision_ref LIKE ?
-               OR REPLACE(REPLACE(section, '((', '('), '))', ')') LIKE ?
-             )
-           )
-         )`
-    ).get(
-      doc.id,
-      provisionRef,
-      pinpoint,
-      pinpoint,
-      allowPrefixMatch ? 1 : 0,
-      `${provisionRef}(%`,
-      `${pinpoint}(%`,
-    );
-    provisionExists = !!prov;
+    provisionExists = provisionExistsFor(db, doc.id, number, pinpoint, parsed);
 
     if (!provisionExists) {
       warnings.push(`Section ${pinpoint} not found in ${doc.title}`);
@@ -105,3 +101,71 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     warnings,
   };
 }
+
+/**
+ * Whether the cited provision exists: as its own row (s1(2)), or as a
+ * subsection or paragraph in the unit tree of the stored section.
+ * Databases without a unit tree fall back to checking that the section text
+ * carries the cited subsection and paragraph markers in order.
+ */
+function provisionExistsFor(
+  db: Database,
+  documentId: string,
+  number: string,
+  pinpoint: string,
+  parsed: ParsedCitation,
+): boolean {
+  const provisionRef = `s${pinpoint}`;
+  const allowPrefixMatch = parsed.subsection == null && parsed.paragraph == null;
+
+  const prov = db.prepare(
+    `SELECT 1
+     FROM legal_provisions
+     WHERE document_id = ?
+       AND (
+         provision_ref = ?
+         OR section = ?
+         OR REPLACE(REPLACE(section, '((', '('), '))', ')') = ?
+         OR (
+           ? = 1
+           AND (
+             provision_ref LIKE ?
+             OR REPLACE(REPLACE(section, '((', '('), '))', ')') LIKE ?
+           )
+         )
+       )`
+  ).get(
+    documentId,
+    provisionRef,
+    pinpoint,
+    pinpoint,
+    allowPrefixMatch ? 1 : 0,
+    `${provisionRef}(%`,
+    `${pinpoint}(%`,
+  );
+  if (prov) return true;
+  if (allowPrefixMatch) return false;
+
+  const base = db.prepare(
+    'SELECT provision_ref, content FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?) LIMIT 1'
+  ).get(documentId, `s${number}`, number) as { provision_ref: string; content: string } | undefined;
+  if (!base) return false;
+
+  const unitRef = `${base.provision_ref}${pinpoint.slice(number.length)}`;
+  try {
+    return db.prepare(
+      'SELECT 1 FROM provision_units WHERE document_id = ? AND provision_ref = ?'
+    ).get(documentId, unitRef) !== undefined;
+  } catch {
+    // Pre-v11 database without provision_units
+  }
+
+  let from = 0;
+  for (const marker of [parsed.subsection, parsed.paragraph]) {
+    if (!marker) continue;
+    const at = base.content.indexOf(`(${marker})`, from);
+    if (at === -1) return false;
+    from = at;
+  }
+  return true;
+}
@@ -29,6 +29,34 @@ export function getAbout(db: InstanceType<typeof Database>, context: AboutContex
     definitions: safeCount(db, 'SELECT COUNT(*) as count FROM definitions'),
   };
 
+  const provisionUnits = safeCount(db, 'SELECT COUNT(*) as count FROM provision_units');
+  if (provisionUnits > 0) {
+    stats.provision_units = provisionUnits;
+  }
+
+  const crossRefs = safeCount(db, 'SELECT COUNT(*) as count FROM cross_references');
+  if (crossRefs > 0) {
+    stats.cross_references = crossRefs;
+  }
+
+  const amendments = safeCount(db, 'SELECT COUNT(*) as count FROM amendments');
+  if (amendments > 0) {
+    stats.amendments = amendments;
+  }
+  const cases = safeCount(db, 'SELECT COUNT(*) as count FROM case_law');
+  if (cases > 0) {
+    stats.cases = cases;
+    stats.case_citations = safeCount(db, 'SELECT COUNT(*) as count FROM case_law_citations');
+  }
+  const preparatoryWorks = safeCount(db, 'SELECT COUNT(*) as count FROM preparatory_works');
+  if (preparatoryWorks > 0) {
+    stats.preparatory_works = preparatoryWorks;
+  }
+  const enablingAuthorities = safeCount(db, 'SELECT COUNT(*) as count FROM enabling_authorities');
+  if (enablingAuthorities > 0) {
+    stats.enabling_authorities = enablingAuthorities;
+  }
+
   if (euRefs > 0) {
     stats.eu_documents = safeCount(db, 'SELECT COUNT(*) as count FROM eu_documents');
     stats.eu_references = euRefs;
@@ -3,8 +3,30 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import {
+  buildFtsQueryVariants,
+  buildLikePattern,
+  buildStemmedFtsQueryVariants,
+  type FtsQueryVariant,
+  sanitizeFtsInput,
+} from '../utils/fts-query.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import {
+  AS_OF_UNAVAILABLE_NOTE,
+  AS_OF_VERSION_FILTER,
+  hasProvisionVersions,
+  hasStemmedIndex,
+  provisionTables,
+} from '../utils/provision-versions.js';
+import { findQueryExpansions } from '../utils/thesaurus.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { CASE_LAW_UNAVAILABLE_NOTE, findCases, hasCaseLaw, type CaseLawHit } from './search-case-law.js';
+import {
+  PREPARATORY_WORKS_UNAVAILABLE_NOTE,
+  findPreparatoryWorks,
+  hasPreparatoryWorks,
+  type PreparatoryWorkHit,
+} from './get-preparatory-works.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface BuildLegalStanceInput {
@@ -28,6 +50,10 @@ interface ProvisionHit {
 export interface LegalStanceResult {
   query: string;
   provisions: ProvisionHit[];
+  /** Judgments on the question (only when include_case_law is set) */
+  cases?: CaseLawHit[];
+  /** Legislative history on the question (only when include_preparatory_works is set) */
+  preparatory_works?: PreparatoryWorkHit[];
   total_citations: number;
 }
 
@@ -47,7 +73,19 @@ export async function buildLegalStance(
 
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const sanitized = sanitizeFtsInput(input.query);
+  const expansions = findQueryExpansions(db, sanitized);
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const useVersions = asOfDate !== undefined && hasProvisionVersions(db);
+  const tables = provisionTables(useVersions);
+  const queryVariants: FtsQueryVariant[] = hasStemmedIndex(db, tables.stemmedFts)
+    ? buildStemmedFtsQueryVariants(sanitized, expansions)
+    : buildFtsQueryVariants(sanitized, expansions).map(query => ({ query, stemmed: false }));
+  // Variants that differ from the unexpanded ones searched thesaurus equivalents
+  const plainVariants = new Set(buildFtsQueryVariants(sanitized));
+  const dateMetadata = asOfDate === undefined
+    ? {}
+    : useVersions ? { as_of_date: asOfDate } : { note: AS_OF_UNAVAILABLE_NOTE };
 
   // Resolve document_id from title if provided
   let resolvedDocId: string | undefined;
@@ -65,23 +103,62 @@ export async function buildLegalStance(
     }
   }
 
+  // Judgments decided by as_of_date, citing the statute when one is given
+  let cases: CaseLawHit[] | undefined;
+  const supplementMetadata: Record<string, string> = {};
+  if (input.include_case_law) {
+    if (hasCaseLaw(db)) {
+      cases = findCases(db, input.query, {
+        documentId: resolvedDocId,
+        dateTo: asOfDate,
+        limit,
+      }).hits;
+    } else {
+      cases = [];
+      supplementMetadata.case_law_note = CASE_LAW_UNAVAILABLE_NOTE;
+    }
+  }
+
+  // Memoranda, debates and reports, up to as_of_date
+  let preparatoryWorks: PreparatoryWorkHit[] | undefined;
+  if (input.include_preparatory_works) {
+    if (hasPreparatoryWorks(db)) {
+      preparatoryWorks = findPreparatoryWorks(db, input.query, { documentId: resolvedDocId, dateTo: asOfDate, limit });
+    } else {
+      preparatoryWorks = [];
+      supplementMetadata.preparatory_works_note = PREPARATORY_WORKS_UNAVAILABLE_NOTE;
+    }
+  }
+
+  const supplementFields = {
+    ...(cases === undefined ? {} : { cases }),
+    ...(preparatoryWorks === undefined ? {} : { preparatory_works: preparatoryWorks }),
+  };
+  const supplementCount = (cases?.length ?? 0) + (preparatoryWorks?.length ?? 0);
+
   let queryStrategy = 'none';
-  for (const ftsQuery of queryVariants) {
+  for (const { query: ftsQuery, stemmed } of queryVariants) {
+    const fts = stemmed ? tables.stemmedFts : tables.fts;
     let sql = `
       SELECT
         lp.document_id,
         ld.title as document_title,
         lp.provision_ref,
         lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        snippet(${fts}, 0, '>>>', '<<<', '...', 32) as snippet,
+        bm25(${fts}) as relevance
+      FROM ${fts}
+      JOIN ${tables.provisions} lp ON lp.id = ${fts}.rowid
       JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
+      WHERE ${fts} MATCH ?
     `;
     const params: (string | number)[] = [ftsQuery];
 
+    if (useVersions) {
+      sql += ` AND ${AS_OF_VERSION_FILTER}`;
+      params.push(asOfDate!, asOfDate!);
+    }
+
     if (resolvedDocId) {
       sql += ' AND lp.document_id = ?';
       params.push(resolvedDocId);
@@ -93,17 +170,22 @@ export async function buildLegalStance(
     try {
       const rows = db.prepare(sql).all(...params) as ProvisionHit[];
       if (rows.length > 0) {
-        queryStrategy = ftsQuery === queryVariants[0] ? 'exact' : 'fallback';
+        queryStrategy = stemmed ? 'stemmed' : ftsQuery === queryVariants[0]!.query ? 'exact' : 'fallback';
         const deduped = deduplicateResults(rows, limit);
         return {
           results: {
             query: input.query,
             provisions: deduped,
-            total_citations: deduped.length,
+            ...supplementFields,
+            total_citations: deduped.length + supplementCount,
           },
           _metadata: {
             ...generateResponseMetadata(db),
+            ...dateMetadata,
+            ...supplementMetadata,
             ...(queryStrategy === 'fallback' ? { query_strategy: 'broadened' } : {}),
+            ...(queryStrategy === 'stemmed' ? { query_strategy: 'stemmed' } : {}),
+            ...(plainVariants.has(ftsQuery) ? {} : { query_expansions: expansions }),
           },
         };
       }
@@ -123,12 +205,17 @@ export async function buildLegalStance(
         lp.title,
         substr(lp.content, 1, 300) as snippet,
         0 as relevance
-      FROM legal_provisions lp
+      FROM ${tables.provisions} lp
       JOIN legal_documents ld ON ld.id = lp.document_id
       WHERE lp.content LIKE ?
     `;
     const likeParams: (string | number)[] = [likePattern];
 
+    if (useVersions) {
+      likeSql += ` AND ${AS_OF_VERSION_FILTER}`;
+      likeParams.push(asOfDate!, asOfDate!);
+    }
+
     if (resolvedDocId) {
       likeSql += ' AND lp.document_id = ?';
       likeParams.push(resolvedDocId);
@@ -144,10 +231,13 @@ export async function buildLegalStance(
           results: {
             query: input.query,
             provisions: deduplicateResults(rows, limit),
-            total_citations: rows.length,
+            ...supplementFields,
+            total_citations: rows.length + supplementCount,
           },
           _metadata: {
             ...generateResponseMetadata(db),
+            ...dateMetadata,
+            ...supplementMetadata,
             query_strategy: 'like_fallback',
           },
         };
@@ -158,8 +248,8 @@ export async function buildLegalStance(
   }
 
   return {
-    results: { query: input.query, provisions: [], total_citations: 0 },
-    _metadata: generateResponseMetadata(db),
+    results: { query: input.query, provisions: [], ...supplementFields, total_citations: supplementCount },
+    _metadata: { ...generateResponseMetadata(db), ...dateMetadata, ...supplementMetadata },
   };
 }
 
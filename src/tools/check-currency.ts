@@ -3,7 +3,10 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { AS_OF_VERSION_FILTER, hasProvisionVersions } from '../utils/provision-versions.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findRepealingDocument } from './get-amendment-history.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -14,12 +17,18 @@ export interface CheckCurrencyInput {
 export interface CurrencyResult {
   document_id: string;
   title: string;
+  /** Status on as_of_date when given, so a later repeal reads as in_force */
   status: string;
   type: string;
   issued_date: string | null;
   in_force_date: string | null;
   is_current: boolean;
   provision_exists?: boolean;
+  as_of_date?: string;
+  /** Whether the statute had commenced by as_of_date (only when as_of_date is given) */
+  in_force_on_date?: boolean;
+  /** Enactment that repealed this statute, when recorded */
+  repealed_by?: { document_id: string; title: string; effective_date: string | null };
   warnings: string[];
 }
 
@@ -54,22 +63,58 @@ export async function checkCurrency(
     };
   }
 
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
   const warnings: string[] = [];
-  const isCurrent = doc.status === 'in_force';
 
-  if (doc.status === 'repealed') {
-    warnings.push('This statute has been repealed');
+  let inForceOnDate: boolean | undefined;
+  if (asOfDate) {
+    const commencement = doc.in_force_date ?? doc.issued_date;
+    inForceOnDate = commencement !== null && commencement <= asOfDate;
+    if (commencement === null) {
+      warnings.push(`Commencement date unknown; cannot confirm the statute was in force on ${asOfDate}`);
+    } else if (!inForceOnDate) {
+      warnings.push(`This statute was not yet in force on ${asOfDate} (in force from ${commencement})`);
+    }
+  }
+
+  // On as_of_date a repeal counts from its effective date; with no date recorded it is assumed
+  const repealedBy = findRepealingDocument(db, doc.id);
+  const repealDate = repealedBy?.effective_date ?? null;
+  const repealedOnDate = doc.status === 'repealed' && (!asOfDate || repealDate === null || repealDate <= asOfDate);
+  const status = doc.status === 'repealed' && !repealedOnDate ? 'in_force' : doc.status;
+  const isCurrent = status === 'in_force' && inForceOnDate !== false;
+
+  if (repealedOnDate) {
+    warnings.push(repealedBy
+      ? `This statute has been repealed by the ${repealedBy.title} (${repealedBy.document_id})` +
+        (repealDate ? ` with effect from ${repealDate}` : '')
+      : 'This statute has been repealed');
+    if (asOfDate && repealDate === null) {
+      warnings.push(`Repeal date unknown; cannot confirm the statute was repealed by ${asOfDate}`);
+    }
+  } else if (doc.status === 'repealed') {
+    warnings.push(`This statute was later repealed by the ${repealedBy!.title} (${repealedBy!.document_id}) with effect from ${repealDate}`);
   }
 
   let provisionExists: boolean | undefined;
   if (input.provision_ref) {
-    const prov = db.prepare(
-      'SELECT 1 FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
-    ).get(doc.id, input.provision_ref, input.provision_ref);
+    const useVersions = asOfDate !== undefined && hasProvisionVersions(db, doc.id);
+    const prov = useVersions
+      ? db.prepare(
+        `SELECT 1 FROM provision_versions lp WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?) AND ${AS_OF_VERSION_FILTER}`
+      ).get(doc.id, input.provision_ref, input.provision_ref, asOfDate, asOfDate)
+      : db.prepare(
+        'SELECT 1 FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
+      ).get(doc.id, input.provision_ref, input.provision_ref);
     provisionExists = !!prov;
 
     if (!provisionExists) {
-      warnings.push(`Provision "${input.provision_ref}" not found in this document`);
+      warnings.push(useVersions
+        ? `Provision "${input.provision_ref}" not found in the text in force on ${asOfDate}`
+        : `Provision "${input.provision_ref}" not found in this document`);
+    }
+    if (asOfDate !== undefined && !useVersions) {
+      warnings.push(`Provision "${input.provision_ref}" checked against the current text: no historical text of this document is recorded`);
     }
   }
 
@@ -77,12 +122,14 @@ export async function checkCurrency(
     results: {
       document_id: doc.id,
       title: doc.title,
-      status: doc.status,
+      status,
       type: doc.type,
       issued_date: doc.issued_date,
       in_force_date: doc.in_force_date,
       is_current: isCurrent,
       provision_exists: provisionExists,
+      ...(repealedBy ? { repealed_by: repealedBy } : {}),
+      ...(asOfDate ? { as_of_date: asOfDate, in_force_on_date: inForceOnDate } : {}),
       warnings,
     },
     _metadata: generateResponseMetadata(db)
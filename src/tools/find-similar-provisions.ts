@@ -0,0 +1,178 @@
+/**
+ * find_similar_provisions — Provisions across all statutes that read like a
+ * given provision or passage.
+ *
+ * Ranks by cosine similarity of the TF-IDF vectors build-db.ts stores in
+ * provision_vectors, computed here in TypeScript: offline and deterministic,
+ * but lexical — provisions must share distinctive vocabulary to score.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import {
+  cosineSimilarity,
+  decodeVector,
+  type TermVector,
+  vectorTerms,
+  weightTerms,
+} from '../utils/term-vectors.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface FindSimilarProvisionsInput {
+  /** Source provision: its statute and reference (s3, sch1) */
+  document_id?: string;
+  provision_ref?: string;
+  /** Or a free-text passage */
+  text?: string;
+  /** Leave out provisions of the source provision's own statute */
+  exclude_same_document?: boolean;
+  limit?: number;
+}
+
+export interface SimilarProvision {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  title: string | null;
+  /** Cosine similarity, 0 to 1 */
+  similarity: number;
+  /** Terms contributing most to the score, strongest first */
+  shared_terms: string[];
+  excerpt: string;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const EXCERPT_LENGTH = 300;
+const SHARED_TERMS = 5;
+
+/** Whether the database carries similarity vectors (schema v13+). */
+export function hasProvisionVectors(db: Database): boolean {
+  try {
+    const row = db.prepare('SELECT COUNT(*) as cnt FROM provision_vectors').get() as { cnt: number };
+    return row.cnt > 0;
+  } catch {
+    return false;
+  }
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= EXCERPT_LENGTH) return text;
+  const cut = text.lastIndexOf(' ', EXCERPT_LENGTH);
+  return `${text.slice(0, cut > 0 ? cut : EXCERPT_LENGTH)}…`;
+}
+
+function sharedTerms(source: TermVector, candidate: TermVector): number[] {
+  return [...source]
+    .filter(([id]) => candidate.has(id))
+    .map(([id, weight]) => [id, weight * candidate.get(id)!] as const)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SHARED_TERMS)
+    .map(([id]) => id);
+}
+
+export async function findSimilarProvisions(
+  db: Database,
+  input: FindSimilarProvisionsInput,
+): Promise<ToolResponse<SimilarProvision[]>> {
+  const text = input.text?.trim();
+  if (!text && !(input.document_id && input.provision_ref)) {
+    throw new Error('Pass document_id and provision_ref, or text');
+  }
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  if (!hasProvisionVectors(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'This database has no similarity vectors; rebuild it with npm run build:db.',
+      },
+    };
+  }
+
+  let source: TermVector;
+  let sourceId: number | undefined;
+  let sourceDocument: string | undefined;
+  if (input.document_id && input.provision_ref) {
+    const documentId = resolveExistingStatuteId(db, input.document_id);
+    if (!documentId) {
+      return {
+        results: [],
+        _metadata: { ...generateResponseMetadata(db), note: `No document found matching "${input.document_id}"` },
+      };
+    }
+    // Similarity is per section or article; a pinpoint stands for its section
+    const ref = input.provision_ref.trim().replace(/\(.*$/, '');
+    const row = db.prepare(`
+      SELECT pv.provision_id, pv.vector
+      FROM provision_vectors pv
+      JOIN legal_provisions lp ON lp.id = pv.provision_id
+      WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?)
+    `).get(documentId, ref, ref) as { provision_id: number; vector: Uint8Array } | undefined;
+    if (!row) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `Provision ${input.provision_ref} not found in ${documentId}, or too short to compare`,
+        },
+      };
+    }
+    source = decodeVector(row.vector);
+    sourceId = row.provision_id;
+    sourceDocument = documentId;
+  } else {
+    const lookup = db.prepare('SELECT id, idf FROM vector_terms WHERE term = ?');
+    source = weightTerms(vectorTerms(text!), term => lookup.get(term) as { id: number; idf: number } | undefined);
+    if (source.size === 0) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: 'None of the words in text are distinctive enough to compare; use more specific legal terms.',
+        },
+      };
+    }
+  }
+
+  const excludeDocument = input.exclude_same_document ? sourceDocument : undefined;
+  const candidates = db.prepare(
+    'SELECT provision_id, document_id, vector FROM provision_vectors'
+  ).all() as { provision_id: number; document_id: string; vector: Uint8Array }[];
+
+  const ranked = candidates
+    .filter(c => c.provision_id !== sourceId && c.document_id !== excludeDocument)
+    .map(c => {
+      const vector = decodeVector(c.vector);
+      return { id: c.provision_id, vector, similarity: cosineSimilarity(source, vector) };
+    })
+    .filter(c => c.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity || a.id - b.id)
+    .slice(0, limit);
+
+  const provision = db.prepare(`
+    SELECT lp.document_id, ld.title as document_title, lp.provision_ref, lp.title, lp.content
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.id = ?
+  `);
+  const term = db.prepare('SELECT term FROM vector_terms WHERE id = ?');
+
+  const results = ranked.map(({ id, vector, similarity }) => {
+    const row = provision.get(id) as Omit<SimilarProvision, 'similarity' | 'shared_terms' | 'excerpt'> & { content: string };
+    const { content, ...rest } = row;
+    return {
+      ...rest,
+      similarity: Math.round(similarity * 10000) / 10000,
+      shared_terms: sharedTerms(source, vector).map(termId => (term.get(termId) as { term: string }).term),
+      excerpt: excerpt(content),
+    };
+  });
+
+  return {
+    results,
+    _metadata: generateResponseMetadata(db),
+  };
+}
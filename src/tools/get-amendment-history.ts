@@ -0,0 +1,157 @@
+/**
+ * get_amendment_history — Which Acts amended or repealed a Ghanaian statute, and when.
+ *
+ * amended_by: changes made to the statute. amends: changes the statute made
+ * to other enactments. Entries are ordered by effective date.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeProvisionRef } from '../utils/provision-ref.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  provision_ref?: string;
+  direction?: 'amended_by' | 'amends' | 'both';
+}
+
+export interface AmendmentEntry {
+  amending_document_id: string;
+  amending_document_title: string;
+  amended_document_id: string;
+  amended_document_title: string;
+  /** Provision refs (or part labels); empty means the enactment as a whole */
+  affected_provisions: string[];
+  effective_date: string | null;
+  kind: string;
+  source: string;
+  citation: string | null;
+}
+
+export interface AmendmentHistoryResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  provision_ref: string | null;
+  repealed_by: { document_id: string; title: string; effective_date: string | null } | null;
+  amended_by: AmendmentEntry[];
+  amends: AmendmentEntry[];
+}
+
+interface AmendmentRow {
+  amending_document_id: string;
+  amending_document_title: string;
+  amended_document_id: string;
+  amended_document_title: string;
+  affected_provisions: string;
+  effective_date: string | null;
+  kind: string;
+  source: string;
+  citation: string | null;
+}
+
+const SELECT_AMENDMENTS = `
+  SELECT
+    a.amending_document_id,
+    amending.title as amending_document_title,
+    a.amended_document_id,
+    amended.title as amended_document_title,
+    a.affected_provisions,
+    a.effective_date,
+    a.kind,
+    a.source,
+    a.citation
+  FROM amendments a
+  JOIN legal_documents amending ON amending.id = a.amending_document_id
+  JOIN legal_documents amended ON amended.id = a.amended_document_id
+`;
+
+function toEntry(row: AmendmentRow): AmendmentEntry {
+  return { ...row, affected_provisions: JSON.parse(row.affected_provisions) as string[] };
+}
+
+/**
+ * Find the enactment that repealed a statute as a whole, if any.
+ * Shared with check_currency, which names the successor in its warning.
+ */
+export function findRepealingDocument(
+  db: Database,
+  documentId: string,
+): { document_id: string; title: string; effective_date: string | null } | null {
+  try {
+    const row = db.prepare(`
+      SELECT a.amending_document_id as document_id, ld.title, a.effective_date
+      FROM amendments a
+      JOIN legal_documents ld ON ld.id = a.amending_document_id
+      WHERE a.amended_document_id = ? AND a.kind = 'repeal' AND a.affected_provisions = '[]'
+      ORDER BY a.effective_date DESC
+      LIMIT 1
+    `).get(documentId) as { document_id: string; title: string; effective_date: string | null } | undefined;
+    return row ?? null;
+  } catch {
+    // Pre-v5 database without an amendments table
+    return null;
+  }
+}
+
+export async function getAmendmentHistory(
+  db: Database,
+  input: GetAmendmentHistoryInput,
+): Promise<ToolResponse<AmendmentHistoryResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveExistingStatuteId(db, input.document_id);
+  const doc = documentId
+    ? db.prepare('SELECT id, title, status FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string; status: string } | undefined
+    : undefined;
+  if (!doc) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const provisionRef = normalizeProvisionRef(input.provision_ref);
+  const direction = input.direction ?? 'amended_by';
+
+  // A provision is affected by amendments naming it, an enclosing unit, a unit
+  // within it ("s18(1)(g)" for s18), or the whole enactment
+  const requested = provisionRef?.toLowerCase();
+  const affects = (entry: AmendmentEntry): boolean =>
+    requested === undefined
+    || entry.affected_provisions.length === 0
+    || entry.affected_provisions.some(ref => {
+      const affected = ref.toLowerCase();
+      return affected === requested || requested.startsWith(`${affected}(`) || affected.startsWith(`${requested}(`);
+    });
+
+  const amendedBy = direction === 'amends'
+    ? []
+    : (db.prepare(`${SELECT_AMENDMENTS} WHERE a.amended_document_id = ? ORDER BY a.effective_date, a.id`)
+      .all(doc.id) as AmendmentRow[]).map(toEntry).filter(affects);
+
+  const amends = direction === 'amended_by'
+    ? []
+    : (db.prepare(`${SELECT_AMENDMENTS} WHERE a.amending_document_id = ? ORDER BY a.effective_date, a.id`)
+      .all(doc.id) as AmendmentRow[]).map(toEntry);
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      document_status: doc.status,
+      provision_ref: provisionRef,
+      repealed_by: findRepealingDocument(db, doc.id),
+      amended_by: amendedBy,
+      amends,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
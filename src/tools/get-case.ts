@@ -0,0 +1,134 @@
+/**
+ * get_case — Retrieve a Ghanaian judgment by case ID or neutral citation.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { CASE_LAW_UNAVAILABLE_NOTE, COURT_NAMES, hasCaseLaw, type CourtCode } from './search-case-law.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCaseInput {
+  /** case_id (e.g. "ghasc-2019-45") or neutral citation (e.g. "[2019] GHASC 45") */
+  case_id: string;
+  /** Max characters of judgment text to return (default 20000) */
+  max_chars?: number;
+}
+
+export interface CitedProvision {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  citation: string | null;
+}
+
+export interface CaseResult {
+  case_id: string;
+  court: string;
+  court_name: string;
+  neutral_citation: string;
+  case_number: string | null;
+  title: string;
+  parties: string[];
+  judges: string[];
+  decision_date: string | null;
+  url: string | null;
+  summary: string | null;
+  content: string;
+  truncated: boolean;
+  cited_provisions: CitedProvision[];
+}
+
+interface CaseRow {
+  id: number;
+  case_id: string;
+  court: string;
+  neutral_citation: string;
+  case_number: string | null;
+  title: string;
+  parties: string | null;
+  judges: string | null;
+  decision_date: string | null;
+  url: string | null;
+  summary: string | null;
+  content: string;
+}
+
+const DEFAULT_MAX_CHARS = 20000;
+
+function parseList(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Collapse whitespace and case so "[2019]  ghasc 45" matches "[2019] GHASC 45". */
+function normalizeCitation(value: string): string {
+  return value.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+export async function getCase(
+  db: Database,
+  input: GetCaseInput,
+): Promise<ToolResponse<CaseResult | null>> {
+  if (!input.case_id || input.case_id.trim().length === 0) {
+    throw new Error('case_id is required');
+  }
+
+  if (!hasCaseLaw(db)) {
+    return {
+      results: null,
+      _metadata: { ...generateResponseMetadata(db), note: CASE_LAW_UNAVAILABLE_NOTE },
+    };
+  }
+
+  const key = input.case_id.trim();
+  const row = db.prepare(`
+    SELECT * FROM case_law
+    WHERE case_id = ? OR UPPER(neutral_citation) = ?
+    LIMIT 1
+  `).get(key.toLowerCase(), normalizeCitation(key)) as CaseRow | undefined;
+
+  if (!row) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No judgment found matching "${input.case_id}"`,
+      },
+    };
+  }
+
+  const maxChars = Math.max(input.max_chars ?? DEFAULT_MAX_CHARS, 1);
+  const truncated = row.content.length > maxChars;
+
+  const citedProvisions = db.prepare(`
+    SELECT DISTINCT c.document_id, ld.title as document_title, c.provision_ref, c.citation
+    FROM case_law_citations c
+    JOIN legal_documents ld ON ld.id = c.document_id
+    WHERE c.case_law_id = ?
+    ORDER BY c.document_id, c.provision_ref
+  `).all(row.id) as CitedProvision[];
+
+  return {
+    results: {
+      case_id: row.case_id,
+      court: row.court,
+      court_name: COURT_NAMES[row.court as CourtCode] ?? row.court,
+      neutral_citation: row.neutral_citation,
+      case_number: row.case_number,
+      title: row.title,
+      parties: parseList(row.parties),
+      judges: parseList(row.judges),
+      decision_date: row.decision_date,
+      url: row.url,
+      summary: row.summary,
+      content: truncated ? row.content.slice(0, maxChars) : row.content,
+      truncated,
+      cited_provisions: citedProvisions,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * get_cross_references — Citator for Ghanaian statutes.
+ *
+ * Outbound: what a statute/provision cites. Inbound: what cites it.
+ * Depth 1 follows references of the requested statute or provision;
+ * further hops follow references at statute level.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeProvisionRef, sectionOfProvisionRef } from '../utils/provision-ref.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  provision_ref?: string;
+  direction?: 'outbound' | 'inbound' | 'both';
+  depth?: number;
+  include_internal?: boolean;
+}
+
+export interface CrossReferenceHit {
+  source_document_id: string;
+  source_provision_ref: string | null;
+  target_document_id: string;
+  target_provision_ref: string | null;
+  reference_type: string;
+  citation: string | null;
+  context: string | null;
+  depth: number;
+}
+
+export interface CrossReferenceGroup {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  document_status: string;
+  references: CrossReferenceHit[];
+}
+
+export interface CrossReferencesResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  outbound: CrossReferenceGroup[];
+  inbound: CrossReferenceGroup[];
+  total_references: number;
+  truncated: boolean;
+}
+
+interface CrossReferenceRow {
+  source_document_id: string;
+  source_provision_ref: string | null;
+  target_document_id: string;
+  target_provision_ref: string | null;
+  reference_type: string;
+  citation: string | null;
+  context: string | null;
+}
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+}
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+/** Safety cap on references returned per direction */
+const MAX_REFERENCES = 200;
+
+const SELECT_COLUMNS = `
+  xr.source_document_id,
+  lp.provision_ref as source_provision_ref,
+  xr.target_document_id,
+  xr.target_provision_ref,
+  xr.reference_type,
+  xr.citation,
+  xr.context
+`;
+
+export async function getCrossReferences(
+  db: Database,
+  input: GetCrossReferencesInput,
+): Promise<ToolResponse<CrossReferencesResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveExistingStatuteId(db, input.document_id);
+  if (!documentId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  // cross_references stores section-level refs, so a pinpoint is looked up by its section
+  const requestedRef = normalizeProvisionRef(input.provision_ref);
+  const provisionRef = requestedRef === null ? null : sectionOfProvisionRef(requestedRef);
+  const direction = input.direction ?? 'both';
+  const depth = Math.min(Math.max(input.depth ?? DEFAULT_DEPTH, 1), MAX_DEPTH);
+  const includeInternal = input.include_internal ?? provisionRef !== null;
+
+  const outboundStmt = db.prepare(`
+    SELECT ${SELECT_COLUMNS}
+    FROM cross_references xr
+    LEFT JOIN legal_provisions lp ON lp.id = xr.source_provision_id
+    WHERE xr.source_document_id = ?
+      AND (? IS NULL OR lp.provision_ref = ?)
+      AND (? = 1 OR xr.reference_type = 'external')
+    ORDER BY xr.id
+  `);
+
+  const inboundStmt = db.prepare(`
+    SELECT ${SELECT_COLUMNS}
+    FROM cross_references xr
+    LEFT JOIN legal_provisions lp ON lp.id = xr.source_provision_id
+    WHERE xr.target_document_id = ?
+      AND (? IS NULL OR xr.target_provision_ref = ?)
+      AND (? = 1 OR xr.reference_type = 'external')
+    ORDER BY xr.id
+  `);
+
+  const traverse = (outbound: boolean): { hits: CrossReferenceHit[]; truncated: boolean } => {
+    const stmt = outbound ? outboundStmt : inboundStmt;
+    const hits: CrossReferenceHit[] = [];
+    const visited = new Set<string>([documentId]);
+    let frontier: Array<{ documentId: string; provisionRef: string | null }> = [
+      { documentId, provisionRef },
+    ];
+
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const next: typeof frontier = [];
+      for (const node of frontier) {
+        const internal = level === 1 && includeInternal ? 1 : 0;
+        const rows = stmt.all(node.documentId, node.provisionRef, node.provisionRef, internal) as CrossReferenceRow[];
+
+        for (const row of rows) {
+          hits.push({ ...row, depth: level });
+          if (hits.length >= MAX_REFERENCES) {
+            return { hits, truncated: true };
+          }
+
+          const neighbour = outbound ? row.target_document_id : row.source_document_id;
+          if (!visited.has(neighbour)) {
+            visited.add(neighbour);
+            next.push({ documentId: neighbour, provisionRef: null });
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return { hits, truncated: false };
+  };
+
+  const outbound = direction === 'inbound' ? { hits: [], truncated: false } : traverse(true);
+  const inbound = direction === 'outbound' ? { hits: [], truncated: false } : traverse(false);
+
+  const docStmt = db.prepare('SELECT id, title, type, status FROM legal_documents WHERE id = ?');
+  const docCache = new Map<string, DocumentRow | undefined>();
+  const lookupDoc = (id: string): DocumentRow | undefined => {
+    if (!docCache.has(id)) {
+      docCache.set(id, docStmt.get(id) as DocumentRow | undefined);
+    }
+    return docCache.get(id);
+  };
+
+  const groupBy = (hits: CrossReferenceHit[], key: (hit: CrossReferenceHit) => string): CrossReferenceGroup[] => {
+    const groups = new Map<string, CrossReferenceGroup>();
+    for (const hit of hits) {
+      const id = key(hit);
+      let group = groups.get(id);
+      if (!group) {
+        const doc = lookupDoc(id);
+        group = {
+          document_id: id,
+          document_title: doc?.title ?? id,
+          document_type: doc?.type ?? 'unknown',
+          document_status: doc?.status ?? 'unknown',
+          references: [],
+        };
+        groups.set(id, group);
+      }
+      group.references.push(hit);
+    }
+    return [...groups.values()];
+  };
+
+  const root = lookupDoc(documentId);
+
+  return {
+    results: {
+      document_id: documentId,
+      document_title: root?.title ?? documentId,
+      provision_ref: provisionRef,
+      outbound: groupBy(outbound.hits, hit => hit.target_document_id),
+      inbound: groupBy(inbound.hits, hit => hit.source_document_id),
+      total_references: outbound.hits.length + inbound.hits.length,
+      truncated: outbound.truncated || inbound.truncated,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
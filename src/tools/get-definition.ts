@@ -0,0 +1,133 @@
+/**
+ * get_definition — Look up statutory definitions of a term in Ghanaian statutes.
+ *
+ * Definitions are extracted at build time from "Interpretation" sections.
+ * Lookup cascade: exact term match → FTS5 on the term column → LIKE on term.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionInput {
+  term: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  term: string;
+  definition: string;
+  source_provision: string | null;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+const SELECT_COLUMNS = `
+  d.document_id,
+  ld.title as document_title,
+  ld.status as document_status,
+  d.term,
+  d.definition,
+  d.source_provision
+`;
+
+export async function getDefinition(
+  db: Database,
+  input: GetDefinitionInput,
+): Promise<ToolResponse<DefinitionResult[]>> {
+  if (!input.term || input.term.trim().length === 0) {
+    throw new Error('term is required');
+  }
+
+  const term = input.term.trim();
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let resolvedDocId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    resolvedDocId = resolved;
+  }
+
+  const docFilter = resolvedDocId ? ' AND d.document_id = ?' : '';
+  const docParams = resolvedDocId ? [resolvedDocId] : [];
+
+  // Tier 1: exact (case-insensitive) term match
+  const exactRows = db.prepare(`
+    SELECT ${SELECT_COLUMNS}
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE LOWER(d.term) = LOWER(?)${docFilter}
+    ORDER BY ld.year DESC
+    LIMIT ?
+  `).all(term, ...docParams, limit) as DefinitionResult[];
+
+  if (exactRows.length > 0) {
+    return { results: exactRows, _metadata: generateResponseMetadata(db) };
+  }
+
+  // Tier 2: FTS5 restricted to the term column
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(term));
+  for (const ftsQuery of queryVariants) {
+    try {
+      const rows = db.prepare(`
+        SELECT ${SELECT_COLUMNS}
+        FROM definitions_fts
+        JOIN definitions d ON d.id = definitions_fts.rowid
+        JOIN legal_documents ld ON ld.id = d.document_id
+        WHERE definitions_fts MATCH ?${docFilter}
+        ORDER BY bm25(definitions_fts), length(d.term)
+        LIMIT ?
+      `).all(`term : (${ftsQuery})`, ...docParams, limit) as DefinitionResult[];
+
+      if (rows.length > 0) {
+        return {
+          results: rows,
+          _metadata: { ...generateResponseMetadata(db), query_strategy: 'broadened' },
+        };
+      }
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  // Tier 3: LIKE on term
+  const likeRows = db.prepare(`
+    SELECT ${SELECT_COLUMNS}
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE d.term LIKE ?${docFilter}
+    ORDER BY length(d.term)
+    LIMIT ?
+  `).all(`%${term}%`, ...docParams, limit) as DefinitionResult[];
+
+  if (likeRows.length > 0) {
+    return {
+      results: likeRows,
+      _metadata: { ...generateResponseMetadata(db), query_strategy: 'like_fallback' },
+    };
+  }
+
+  return {
+    results: [],
+    _metadata: {
+      ...generateResponseMetadata(db),
+      note: `No statutory definition found for "${term}"`,
+    },
+  };
+}
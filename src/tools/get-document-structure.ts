@@ -0,0 +1,137 @@
+/**
+ * get_document_structure — Table of contents of a Ghanaian statute.
+ *
+ * Chapters, Parts, section titles and Schedules as a nested tree,
+ * in document order, without provision text. Chapters enclose Parts where an
+ * Act has both (e.g. the Companies Act, 2019).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { provisionOrderColumn } from '../utils/provision-versions.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDocumentStructureInput {
+  document_id: string;
+}
+
+export interface StructureNode {
+  type: 'chapter' | 'part' | 'section' | 'schedule' | 'schedule_paragraph';
+  title: string | null;
+  /** Set on sections and schedules; pass to get_provision */
+  provision_ref?: string;
+  children?: StructureNode[];
+}
+
+export interface DocumentStructureResult {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  status: string;
+  provision_count: number;
+  structure: StructureNode[];
+}
+
+interface OutlineRow {
+  provision_ref: string;
+  part: string | null;
+  chapter: string | null;
+  title: string | null;
+}
+
+/** "sch1-para3" → "sch1"; null for sections. */
+function scheduleOf(ref: string): string | null {
+  return ref.match(/^(sch\d+)-para/)?.[1] ?? null;
+}
+
+function leafNode(row: OutlineRow): StructureNode {
+  const type = row.provision_ref.startsWith('sch')
+    ? (scheduleOf(row.provision_ref) ? 'schedule_paragraph' : 'schedule')
+    : 'section';
+  return { type, title: row.title, provision_ref: row.provision_ref };
+}
+
+/**
+ * Append to the last child when it is the same heading, otherwise open a new
+ * one — headings repeat only across consecutive provisions.
+ */
+function headingNode(siblings: StructureNode[], type: 'chapter' | 'part', title: string): StructureNode {
+  const last = siblings[siblings.length - 1];
+  if (last && last.type === type && last.title === title) return last;
+  const node: StructureNode = { type, title, children: [] };
+  siblings.push(node);
+  return node;
+}
+
+function buildTree(rows: OutlineRow[]): StructureNode[] {
+  const root: StructureNode[] = [];
+  const schedules = new Map<string, StructureNode>();
+
+  for (const row of rows) {
+    const node = leafNode(row);
+    if (node.type === 'schedule_paragraph') {
+      const schedule = schedules.get(scheduleOf(row.provision_ref)!);
+      if (schedule) (schedule.children ??= []).push(node);
+      else root.push(node);
+      continue;
+    }
+    if (node.type === 'schedule') {
+      schedules.set(row.provision_ref, node);
+      root.push(node);
+      continue;
+    }
+
+    let siblings = root;
+    if (row.chapter) siblings = headingNode(siblings, 'chapter', row.chapter).children!;
+    if (row.part) siblings = headingNode(siblings, 'part', row.part).children!;
+    siblings.push(node);
+  }
+
+  return root;
+}
+
+export async function getDocumentStructure(
+  db: Database,
+  input: GetDocumentStructureInput,
+): Promise<ToolResponse<DocumentStructureResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveExistingStatuteId(db, input.document_id);
+  const doc = documentId
+    ? db.prepare('SELECT id, title, type, status FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string; type: string; status: string } | undefined
+    : undefined;
+  if (!doc) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const rows = db.prepare(`
+    SELECT lp.provision_ref, lp.part, lp.chapter, lp.title
+    FROM legal_provisions lp
+    WHERE lp.document_id = ?
+    ORDER BY ${provisionOrderColumn(db, 'legal_provisions')}
+  `).all(doc.id) as OutlineRow[];
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      document_type: doc.type,
+      status: doc.status,
+      provision_count: rows.length,
+      structure: buildTree(rows),
+    },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(rows.length === 0 ? { note: 'No provision text is available for this document.' } : {}),
+    },
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * get_preparatory_works — Legislative history of a Ghanaian Act.
+ *
+ * Explanatory memoranda, Hansard debates, committee reports and Bills,
+ * for purposive interpretation arguments. Ordered by date.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type PreparatoryWorkType = 'memorandum' | 'hansard' | 'committee_report' | 'bill';
+
+export interface GetPreparatoryWorksInput {
+  document_id: string;
+  type?: PreparatoryWorkType;
+  /** Only items matching this text, with a snippet */
+  query?: string;
+  limit?: number;
+  /** Max characters of text per item (default 5000) */
+  max_chars?: number;
+}
+
+export interface PreparatoryWork {
+  work_id: string;
+  type: string;
+  title: string;
+  bill_title: string | null;
+  date: string | null;
+  url: string | null;
+  snippet?: string;
+  content: string;
+  truncated: boolean;
+}
+
+export interface PreparatoryWorksResult {
+  document_id: string;
+  document_title: string;
+  works: PreparatoryWork[];
+}
+
+export interface PreparatoryWorkHit {
+  work_id: string;
+  document_id: string | null;
+  document_title: string | null;
+  type: string;
+  title: string;
+  date: string | null;
+  snippet: string;
+  relevance: number;
+}
+
+interface PreparatoryWorkRow {
+  work_id: string;
+  type: string;
+  title: string;
+  bill_title: string | null;
+  date: string | null;
+  url: string | null;
+  content: string;
+  snippet?: string;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const DEFAULT_MAX_CHARS = 5000;
+
+const WORK_TYPES = new Set<string>(['memorandum', 'hansard', 'committee_report', 'bill']);
+
+export const PREPARATORY_WORKS_UNAVAILABLE_NOTE =
+  'Preparatory works are not available in this database: none have been ingested (npm run ingest:prep-works), so results are empty.';
+
+/**
+ * Whether the database carries preparatory works (schema v7+ with ingested items).
+ */
+export function hasPreparatoryWorks(db: Database): boolean {
+  try {
+    const row = db.prepare('SELECT COUNT(*) as cnt FROM preparatory_works').get() as { cnt: number };
+    return row.cnt > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * FTS search over preparatory works, optionally within one Act and up to a date.
+ * Shared with build_legal_stance.
+ */
+export function findPreparatoryWorks(
+  db: Database,
+  query: string,
+  options: { documentId?: string; dateTo?: string; limit: number },
+): PreparatoryWorkHit[] {
+  let filterSql = '';
+  const filterParams: string[] = [];
+  if (options.documentId) {
+    filterSql += ' AND pw.document_id = ?';
+    filterParams.push(options.documentId);
+  }
+  if (options.dateTo) {
+    filterSql += ' AND (pw.date IS NULL OR pw.date <= ?)';
+    filterParams.push(options.dateTo);
+  }
+
+  for (const ftsQuery of buildFtsQueryVariants(sanitizeFtsInput(query))) {
+    try {
+      const hits = db.prepare(`
+        SELECT
+          pw.work_id,
+          pw.document_id,
+          ld.title as document_title,
+          pw.type,
+          pw.title,
+          pw.date,
+          snippet(preparatory_works_fts, 1, '>>>', '<<<', '...', 32) as snippet,
+          bm25(preparatory_works_fts) as relevance
+        FROM preparatory_works_fts
+        JOIN preparatory_works pw ON pw.id = preparatory_works_fts.rowid
+        LEFT JOIN legal_documents ld ON ld.id = pw.document_id
+        WHERE preparatory_works_fts MATCH ?${filterSql}
+        ORDER BY relevance
+        LIMIT ?
+      `).all(ftsQuery, ...filterParams, options.limit) as PreparatoryWorkHit[];
+      if (hits.length > 0) return hits;
+    } catch {
+      continue;
+    }
+  }
+  return [];
+}
+
+export async function getPreparatoryWorks(
+  db: Database,
+  input: GetPreparatoryWorksInput,
+): Promise<ToolResponse<PreparatoryWorksResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+  if (input.type && !WORK_TYPES.has(input.type)) {
+    throw new Error(`type must be one of ${[...WORK_TYPES].join(', ')}`);
+  }
+
+  const documentId = resolveExistingStatuteId(db, input.document_id);
+  const doc = documentId
+    ? db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string } | undefined
+    : undefined;
+  if (!doc) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  if (!hasPreparatoryWorks(db)) {
+    return {
+      results: { document_id: doc.id, document_title: doc.title, works: [] },
+      _metadata: { ...generateResponseMetadata(db), note: PREPARATORY_WORKS_UNAVAILABLE_NOTE },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const maxChars = Math.max(input.max_chars ?? DEFAULT_MAX_CHARS, 1);
+
+  let rows: PreparatoryWorkRow[];
+  if (input.query && input.query.trim().length > 0) {
+    const hits = findPreparatoryWorks(db, input.query, { documentId: doc.id, limit });
+    const snippets = new Map(hits.map(hit => [hit.work_id, hit.snippet]));
+    rows = hits.length === 0
+      ? []
+      : (db.prepare(`
+          SELECT work_id, type, title, bill_title, date, url, content
+          FROM preparatory_works
+          WHERE work_id IN (${hits.map(() => '?').join(', ')})
+        `).all(...hits.map(hit => hit.work_id)) as PreparatoryWorkRow[])
+          .filter(row => !input.type || row.type === input.type)
+          .map(row => ({ ...row, snippet: snippets.get(row.work_id) }));
+  } else {
+    rows = db.prepare(`
+      SELECT work_id, type, title, bill_title, date, url, content
+      FROM preparatory_works
+      WHERE document_id = ? AND (? IS NULL OR type = ?)
+      ORDER BY date, work_id
+      LIMIT ?
+    `).all(doc.id, input.type ?? null, input.type ?? null, limit) as PreparatoryWorkRow[];
+  }
+
+  const works = rows
+    .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '') || a.work_id.localeCompare(b.work_id))
+    .map(row => ({
+      ...row,
+      content: row.content.length > maxChars ? row.content.slice(0, maxChars) : row.content,
+      truncated: row.content.length > maxChars,
+    }));
+
+  return {
+    results: { document_id: doc.id, document_title: doc.title, works },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -3,16 +3,41 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { decodeCursor, encodeCursor, INVALID_CURSOR_MESSAGE } from '../utils/cursor.js';
+import {
+  AS_OF_NO_HISTORY_NOTE,
+  AS_OF_VERSION_FILTER,
+  hasProvisionVersions,
+  provisionOrderColumn,
+  provisionTables,
+} from '../utils/provision-versions.js';
+import { PINPOINT_REF } from '../utils/provision-ref.js';
+import { documentTitle, fuzzyResolutionNote, resolveDocument } from '../utils/statute-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetProvisionInput {
   document_id: string;
+  /** Only provisions in this Part ("III", "Part III", "Part A") */
   part?: string;
+  /** Only provisions in this Chapter ("5", "Chapter Five") */
   chapter?: string;
+  /** Section number, pinpoint or range ("10-18") */
   section?: string;
-  article?: string;
   provision_ref?: string;
+  /** With a subsection or paragraph pinpoint, also return the units containing it */
+  include_ancestors?: boolean;
+  /** Also return the refs of the previous and next provisions in document order */
+  include_navigation?: boolean;
+  /** Also return this many neighbouring provisions on each side (max 10) */
+  context_window?: number;
+  /** Page size when several provisions are returned (max 200) */
+  limit?: number;
+  /** Provisions to skip when several are returned */
+  offset?: number;
+  /** next_cursor from the previous page */
+  cursor?: string;
+  as_of_date?: string;
 }
 
 export interface ProvisionResult {
@@ -20,103 +45,448 @@ export interface ProvisionResult {
   document_title: string;
   document_status: string;
   provision_ref: string;
+  part: string | null;
   chapter: string | null;
   section: string;
   title: string | null;
   content: string;
+  /** Schedule tables as structured rows (schedules only) */
+  tables?: ProvisionTable[];
+  /** subsection, paragraph or subparagraph when a pinpoint resolved to a unit */
+  level?: string;
+  /** Section first, then each unit down to the returned one's parent */
+  ancestors?: ProvisionAncestor[];
+  /** Adjacent provisions in document order (include_navigation); null at either end */
+  prev_provision_ref?: string | null;
+  next_provision_ref?: string | null;
+  /** Neighbouring provisions, nearest last before and nearest first after (context_window) */
+  context_before?: ProvisionResult[];
+  context_after?: ProvisionResult[];
+  /** Validity period of the returned text (only when as_of_date is given) */
+  valid_from?: string;
+  valid_to?: string | null;
+}
+
+export interface ProvisionTable {
+  header?: string[];
+  rows: string[][];
+}
+
+/** A page of provisions from a Part, Chapter, section range or whole statute. */
+export interface ProvisionPage {
+  provisions: ProvisionResult[];
+  /** Provisions matching the selection across all pages */
+  total: number;
+  truncated: boolean;
+  /** Pass as cursor for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface ProvisionAncestor {
+  provision_ref: string;
+  level: string;
+  content: string;
 }
 
 interface ProvisionRow {
+  /** Position in document order */
+  ordinal: number;
   document_id: string;
   document_title: string;
   document_status: string;
   provision_ref: string;
+  part: string | null;
   chapter: string | null;
   section: string;
   title: string | null;
   content: string;
+  metadata: string | null;
+  valid_from?: string;
+  valid_to?: string | null;
+}
+
+interface UnitRow {
+  id: number;
+  parent_id: number | null;
+  provision_ref: string;
+  level: string;
+  content: string;
+}
+
+/** Drop the ordinal and raw metadata column, surfacing schedule tables. */
+function toResult({ metadata, ordinal: _ordinal, ...row }: ProvisionRow): ProvisionResult {
+  if (!metadata) return row;
+  try {
+    const tables = (JSON.parse(metadata) as { tables?: ProvisionTable[] }).tables;
+    return tables && tables.length > 0 ? { ...row, tables } : row;
+  } catch {
+    return row;
+  }
+}
+
+/** "sch1", "Schedule 1", "Schedule 2, paragraph 3", "sch2-para3": schedule number, paragraph */
+const SCHEDULE_REF = /^sch(?:edule)?\.?\s*(\d+)(?:\s*[-,]?\s*para(?:graph)?\.?\s*(\w+))?$/i;
+
+/** "s10-s18", "10–18", "s12 to s15": first and last section number */
+const RANGE_REF = /^(?:s(?:ection)?\.?)?\s*(\d+)[A-Z]?\s*(?:-|–|—|to)\s*(?:s(?:ection)?\.?)?\s*(\d+)[A-Z]?$/i;
+
+/**
+ * Where the next page starts: the last ordinal returned, and the document and
+ * selection (range, Part, Chapter, date) the cursor was issued for.
+ */
+interface ProvisionCursor {
+  document_id: string;
+  selection: (string | null)[];
+  after: number;
+}
+
+function isProvisionCursor(value: unknown): value is ProvisionCursor {
+  const cursor = value as ProvisionCursor;
+  return typeof cursor === 'object' && cursor !== null
+    && typeof cursor.document_id === 'string'
+    && Array.isArray(cursor.selection)
+    && cursor.selection.every(v => v === null || typeof v === 'string')
+    && typeof cursor.after === 'number';
 }
 
-/** Safety cap when returning all provisions for a statute */
+/** Safety cap (and default page size) when returning several provisions */
 const MAX_ALL_PROVISIONS = 200;
 
+const MAX_CONTEXT_WINDOW = 10;
+
+const NUMBER_WORDS = [
+  'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+  'twenty-one', 'twenty-two', 'twenty-three', 'twenty-four', 'twenty-five', 'twenty-six',
+];
+
+/**
+ * Designator of a Part or Chapter heading or selector: "Part III – Shares" → "III",
+ * "CHAPTER FIVE - FUNDAMENTAL ..." → "FIVE", "Chapter onePreliminary provisions" → "one".
+ */
+const HEADING_DESIGNATOR = new RegExp(
+  `^\\s*(?:part|chapter)?\\s*(\\d+[A-Z]?|${[...NUMBER_WORDS].sort((a, b) => b.length - a.length).join('|')}|[IVXLC]+(?![a-z])|[A-Z](?![a-z]))`,
+  'i',
+);
+
+function romanValue(numeral: string): number | null {
+  if (!/^[ivxlc]+$/.test(numeral)) return null;
+  const values: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = values[numeral[i]!]!;
+    const next = values[numeral[i + 1] ?? ''] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+/** Ways a designator can be written: "iii" and "3" for Part III, "five" and "5" for Chapter Five. */
+function designatorKeys(designator: string): Set<string> {
+  const lower = designator.toLowerCase();
+  const keys = new Set([lower]);
+  const number = /^\d+$/.test(lower)
+    ? Number(lower)
+    : NUMBER_WORDS.includes(lower) ? NUMBER_WORDS.indexOf(lower) + 1 : romanValue(lower);
+  if (number !== null) keys.add(String(number));
+  return keys;
+}
+
+/**
+ * Headings a Part or Chapter selector refers to: by designator in any
+ * numbering style, or by words of the heading when no designator is given.
+ */
+function matchingHeadings(headings: string[], selector: string): string[] {
+  const wanted = selector.replace(/\s+/g, ' ').trim();
+  const designator = wanted.match(HEADING_DESIGNATOR)?.[1];
+  if (!designator || wanted.length > designator.length + 'chapter '.length) {
+    const words = wanted.toLowerCase();
+    return headings.filter(h => h.toLowerCase().includes(words));
+  }
+  const own = (heading: string) => heading.match(HEADING_DESIGNATOR)?.[1];
+  // Lettered Parts ("Part C", "Part I") are taken as written before any roman reading
+  const exact = headings.filter(heading => own(heading)?.toLowerCase() === designator.toLowerCase());
+  if (exact.length > 0) return exact;
+  const keys = designatorKeys(designator);
+  return headings.filter(heading => {
+    const designated = own(heading);
+    return designated !== undefined && [...designatorKeys(designated)].some(key => keys.has(key));
+  });
+}
+
 export async function getProvision(
   db: Database,
   input: GetProvisionInput
-): Promise<ToolResponse<ProvisionResult | ProvisionResult[] | { provisions: ProvisionResult[]; truncated: boolean; total: number } | null>> {
+): Promise<ToolResponse<ProvisionResult | ProvisionPage | null>> {
   if (!input.document_id) {
     throw new Error('document_id is required');
   }
 
-  const resolvedDocumentId = resolveExistingStatuteId(db, input.document_id) ?? input.document_id;
+  const resolution = resolveDocument(db, input.document_id);
+  const resolvedDocumentId = resolution?.id ?? input.document_id;
+  // A fuzzy match may be a different statute than the one meant; say which answered
+  const resolvedTitle = resolution?.fuzzy ? documentTitle(db, resolution.id) : undefined;
+
+  const provisionRef = input.provision_ref ?? input.section;
+
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const useVersions = asOfDate !== undefined && hasProvisionVersions(db, resolvedDocumentId);
+  const table = provisionTables(useVersions).provisions;
+  const order = provisionOrderColumn(db, table);
+  // Point-in-time versions carry no metadata
+  const versionColumns = useVersions ? ', NULL as metadata, lp.valid_from, lp.valid_to' : ', lp.metadata';
+  const versionFilter = useVersions ? ` AND ${AS_OF_VERSION_FILTER}` : '';
+  const versionParams = useVersions ? [asOfDate!, asOfDate!] : [];
+  const metadata = (note?: string) => {
+    const notes = [
+      resolvedTitle !== undefined ? fuzzyResolutionNote(input.document_id, resolvedDocumentId, resolvedTitle) : undefined,
+      asOfDate !== undefined && !useVersions ? AS_OF_NO_HISTORY_NOTE : undefined,
+      note,
+    ].filter(n => n);
+    return {
+      ...generateResponseMetadata(db),
+      ...(resolvedTitle !== undefined ? { resolved_document_id: resolvedDocumentId, resolved_title: resolvedTitle } : {}),
+      ...(useVersions ? { as_of_date: asOfDate } : {}),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    };
+  };
+
+  // A Part, Chapter or section range, or no selector at all, returns a page of provisions
+  const range = provisionRef?.trim().match(RANGE_REF);
+  if (!provisionRef || range) {
+    const selection = [provisionRef?.trim() ?? null, input.part?.trim() || null, input.chapter?.trim() || null, asOfDate ?? null];
+    const cursor = decodeCursor(input.cursor, isProvisionCursor);
+    if (cursor && (cursor.document_id !== resolvedDocumentId || cursor.selection.some((value, i) => value !== selection[i]))) {
+      throw new Error(`${INVALID_CURSOR_MESSAGE} (it was issued for a different document or selection)`);
+    }
+
+    const conditions = [`lp.document_id = ?${versionFilter}`];
+    const params: (string | number)[] = [resolvedDocumentId, ...versionParams];
 
-  const provisionRef = input.provision_ref ?? input.section ?? (input as any).article;
+    if (range) {
+      const [first, last] = [Number(range[1]), Number(range[2])];
+      if (first > last) {
+        throw new Error(`Section range "${provisionRef}" runs backwards`);
+      }
+      conditions.push(`lp.provision_ref GLOB ? AND CAST(lp.section AS INTEGER) BETWEEN ? AND ?`);
+      params.push('s[0-9]*', first, last);
+    }
 
-  // If no specific provision, return all provisions for the document (with safety cap)
-  if (!provisionRef) {
+    for (const column of ['part', 'chapter'] as const) {
+      const selector = input[column]?.trim();
+      if (!selector) continue;
+      const headings = (db.prepare(
+        `SELECT DISTINCT lp.${column} as heading FROM ${table} lp WHERE ${conditions[0]} AND lp.${column} IS NOT NULL`
+      ).all(resolvedDocumentId, ...versionParams) as { heading: string }[]).map(r => r.heading);
+      const matched = matchingHeadings(headings, selector);
+      if (matched.length === 0) {
+        const label = column === 'part' ? 'Part' : 'Chapter';
+        return {
+          results: { provisions: [], total: 0, truncated: false, next_cursor: null },
+          _metadata: metadata(
+            headings.length > 0
+              ? `No ${label} matching "${selector}". Available: ${headings.join('; ')}`
+              : `This document has no ${label} headings.`
+          ),
+        };
+      }
+      conditions.push(`lp.${column} IN (${matched.map(() => '?').join(', ')})`);
+      params.push(...matched);
+    }
+
+    const where = conditions.join(' AND ');
     const countRow = db.prepare(
-      'SELECT COUNT(*) as count FROM legal_provisions WHERE document_id = ?'
-    ).get(resolvedDocumentId) as { count: number } | undefined;
+      `SELECT COUNT(*) as count FROM ${table} lp WHERE ${where}`
+    ).get(...params) as { count: number } | undefined;
     const total = countRow?.count ?? 0;
 
+    const limit = Math.min(Math.max(input.limit ?? MAX_ALL_PROVISIONS, 1), MAX_ALL_PROVISIONS);
+    const offset = cursor ? 0 : Math.max(input.offset ?? 0, 0);
+
     const rows = db.prepare(`
       SELECT
+        ${order} as ordinal,
         lp.document_id,
         ld.title as document_title,
         ld.status as document_status,
         lp.provision_ref,
+        lp.part,
         lp.chapter,
         lp.section,
         lp.title,
-        lp.content
-      FROM legal_provisions lp
+        lp.content${versionColumns}
+      FROM ${table} lp
       JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.document_id = ?
-      ORDER BY lp.id
-      LIMIT ?
-    `).all(resolvedDocumentId, MAX_ALL_PROVISIONS) as ProvisionRow[];
-
-    if (total > MAX_ALL_PROVISIONS) {
-      return {
-        results: {
-          provisions: rows,
-          truncated: true,
-          total,
-        },
-        _metadata: generateResponseMetadata(db),
-      };
-    }
+      WHERE ${where}${cursor ? ` AND ${order} > ?` : ''}
+      ORDER BY ${order}
+      LIMIT ? OFFSET ?
+    `).all(...params, ...(cursor ? [cursor.after] : []), limit + 1, offset) as ProvisionRow[];
 
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
     return {
-      results: rows,
-      _metadata: generateResponseMetadata(db)
+      results: {
+        provisions: page.map(toResult),
+        total,
+        truncated: hasMore,
+        next_cursor: hasMore
+          ? encodeCursor({ document_id: resolvedDocumentId, selection, after: page[page.length - 1]!.ordinal })
+          : null,
+      },
+      _metadata: metadata(),
     };
   }
 
-  const row = db.prepare(`
-    SELECT
+  const columns = `
+      ${order} as ordinal,
       lp.document_id,
       ld.title as document_title,
       ld.status as document_status,
       lp.provision_ref,
+      lp.part,
       lp.chapter,
       lp.section,
       lp.title,
-      lp.content
-    FROM legal_provisions lp
+      lp.content${versionColumns}`;
+
+  const findRow = (ref: string) => db.prepare(`
+    SELECT ${columns}
+    FROM ${table} lp
     JOIN legal_documents ld ON ld.id = lp.document_id
-    WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?)
-  `).get(resolvedDocumentId, provisionRef, provisionRef) as ProvisionRow | undefined;
+    WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?)${versionFilter}
+  `).get(resolvedDocumentId, ref, ref, ...versionParams) as ProvisionRow | undefined;
+
+  // Provisions before or after one in document order, nearest first
+  const neighbours = (row: ProvisionRow, direction: 'before' | 'after', count: number) => db.prepare(`
+    SELECT ${columns}
+    FROM ${table} lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ? AND ${order} ${direction === 'before' ? '<' : '>'} ?${versionFilter}
+    ORDER BY ${order} ${direction === 'before' ? 'DESC' : 'ASC'}
+    LIMIT ?
+  `).all(resolvedDocumentId, row.ordinal, ...versionParams, count) as ProvisionRow[];
+
+  const contextWindow = Math.min(Math.max(Math.floor(input.context_window ?? 0), 0), MAX_CONTEXT_WINDOW);
+  const surroundings = (row: ProvisionRow): Partial<ProvisionResult> => {
+    const extra: Partial<ProvisionResult> = {};
+    if (input.include_navigation) {
+      extra.prev_provision_ref = neighbours(row, 'before', 1)[0]?.provision_ref ?? null;
+      extra.next_provision_ref = neighbours(row, 'after', 1)[0]?.provision_ref ?? null;
+    }
+    if (contextWindow > 0) {
+      extra.context_before = neighbours(row, 'before', contextWindow).reverse().map(toResult);
+      extra.context_after = neighbours(row, 'after', contextWindow).map(toResult);
+    }
+    return extra;
+  };
+
+  const exact = findRow(provisionRef);
+  if (exact) {
+    return {
+      results: { ...toResult(exact), ...surroundings(exact) },
+      _metadata: metadata()
+    };
+  }
 
-  if (!row) {
+  const schedule = provisionRef.trim().match(SCHEDULE_REF);
+  const scheduleRow = schedule ? findRow(`sch${schedule[1]}${schedule[2] ? `-para${schedule[2]}` : ''}`) : undefined;
+  if (scheduleRow) {
+    return {
+      results: { ...toResult(scheduleRow), ...surroundings(scheduleRow) },
+      _metadata: metadata()
+    };
+  }
+
+  // A pinpoint ("s1(2)(a)", "Section 21(1)") resolves to its subsection or paragraph;
+  // a section not split into units is returned whole
+  const pinpoint = provisionRef.trim().match(PINPOINT_REF);
+  const base = pinpoint ? findRow(pinpoint[1]) ?? findRow(`s${pinpoint[1]}`) : undefined;
+  if (!base) {
     return {
       results: null,
-      _metadata: generateResponseMetadata(db)
+      _metadata: metadata()
     };
   }
 
+  const unitRef = `${base.provision_ref}${pinpoint![2]}`;
+  // Units hold the current text only
+  const unit = pinpoint![2] && !useVersions ? findUnit(db, resolvedDocumentId, unitRef) : undefined;
+  if (!unit && pinpoint![2] && !useVersions && hasUnits(db, resolvedDocumentId, base.provision_ref)) {
+    // The section is split into units and this is not one of them
+    const subsectionRef = `${base.provision_ref}${pinpoint![2].match(/^\(\w+\)/)![0]}`;
+    const subsection = subsectionRef !== unitRef ? findUnit(db, resolvedDocumentId, subsectionRef) : undefined;
+    return {
+      results: null,
+      _metadata: metadata(subsection
+        ? `${unitRef} not found: units are stored down to subsections only, as the source text omits paragraph markers. ` +
+          `Request ${subsectionRef} for the subsection containing it.`
+        : `${unitRef} not found: ${base.provision_ref} has no such subsection.`),
+    };
+  }
+  if (!unit) {
+    return {
+      results: { ...toResult(base), ...surroundings(base) },
+      _metadata: metadata(
+        pinpoint![2] ? `${unitRef} is not stored separately; returning the whole of ${base.provision_ref}.` : undefined
+      ),
+    };
+  }
+
+  const { ordinal: _ordinal, metadata: _metadata, valid_from: _from, valid_to: _to, ...section } = base;
   return {
-    results: row,
-    _metadata: generateResponseMetadata(db)
+    results: {
+      ...section,
+      provision_ref: unit.provision_ref,
+      content: unit.content,
+      level: unit.level,
+      ...(input.include_ancestors ? { ancestors: unitAncestors(db, base, unit) } : {}),
+      // A unit's neighbours are those of its section
+      ...surroundings(base),
+    },
+    _metadata: metadata()
   };
 }
+
+/** Whether a section is split into subsections or paragraphs. */
+function hasUnits(db: Database, documentId: string, sectionRef: string): boolean {
+  try {
+    return db.prepare(
+      'SELECT 1 FROM provision_units WHERE document_id = ? AND provision_ref GLOB ? LIMIT 1'
+    ).get(documentId, `${sectionRef}(*`) !== undefined;
+  } catch {
+    // Pre-v11 database without provision_units
+    return false;
+  }
+}
+
+function findUnit(db: Database, documentId: string, ref: string): UnitRow | undefined {
+  try {
+    return db.prepare(
+      'SELECT id, parent_id, provision_ref, level, content FROM provision_units WHERE document_id = ? AND provision_ref = ?'
+    ).get(documentId, ref) as UnitRow | undefined;
+  } catch {
+    // Pre-v11 database without provision_units
+    return undefined;
+  }
+}
+
+/** The section, then each enclosing unit, outermost first. */
+function unitAncestors(db: Database, base: ProvisionRow, unit: UnitRow): ProvisionAncestor[] {
+  const parent = db.prepare(
+    'SELECT id, parent_id, provision_ref, level, content FROM provision_units WHERE id = ?'
+  );
+  const ancestors: ProvisionAncestor[] = [];
+  let parentId = unit.parent_id;
+  while (parentId !== null) {
+    const row = parent.get(parentId) as UnitRow | undefined;
+    if (!row) break;
+    ancestors.unshift({ provision_ref: row.provision_ref, level: row.level, content: row.content });
+    parentId = row.parent_id;
+  }
+  ancestors.unshift({
+    provision_ref: base.provision_ref,
+    level: 'section',
+    content: base.content,
+  });
+  return ancestors;
+}
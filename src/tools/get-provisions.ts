@@ -0,0 +1,183 @@
+/**
+ * get_provisions — Retrieve several provisions, from one or many statutes, in one call.
+ *
+ * Each request is a {document_id, provision_ref} pair or a citation string
+ * ("Section 3, Data Protection Act 2012 (Act 843)"). Found provisions come back
+ * in request order; requests that cannot be served are listed in errors.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { DocumentType, ParsedCitation } from '../types/index.js';
+import { parseCitation } from '../citation/parser.js';
+import { findCitedDocument } from '../citation/validator.js';
+import {
+  documentTitle,
+  fuzzyResolutionNote,
+  instrumentNumberCandidates,
+  resolveDocument,
+  seriesNumberCandidates,
+} from '../utils/statute-id.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { hasProvisionVersions } from '../utils/provision-versions.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { getProvision, type ProvisionResult } from './get-provision.js';
+
+export interface ProvisionRequest {
+  document_id: string;
+  provision_ref: string;
+}
+
+export interface GetProvisionsInput {
+  /** {document_id, provision_ref} pairs or citation strings */
+  requests: (ProvisionRequest | string)[];
+  include_ancestors?: boolean;
+  as_of_date?: string;
+}
+
+export interface BatchProvision extends ProvisionResult {
+  /** Position of the request this provision answers */
+  request_index: number;
+}
+
+export interface BatchError {
+  request_index: number;
+  request: ProvisionRequest | string;
+  error: 'not_found' | 'ambiguous' | 'invalid';
+  message: string;
+  /** Documents an ambiguous reference could mean */
+  candidates?: string[];
+}
+
+export interface GetProvisionsResult {
+  provisions: BatchProvision[];
+  errors: BatchError[];
+}
+
+const MAX_REQUESTS = 25;
+
+/** A request whose document_id only a fuzzy title match resolved. */
+export interface FuzzyResolution {
+  request_index: number;
+  document_id: string;
+  resolved_document_id: string;
+  resolved_title: string;
+}
+
+type Target = { document_id: string; provision_ref: string; fuzzy?: boolean } | Omit<BatchError, 'request_index' | 'request'>;
+
+/** Document and provision ref a citation string names. */
+function citationTarget(db: Database, citation: string): Target {
+  const parsed = parseCitation(citation);
+  if (!parsed.valid) {
+    return { error: 'invalid', message: parsed.error ?? 'Invalid citation format' };
+  }
+  const number = parsed.section;
+  if (!number) {
+    return { error: 'invalid', message: `Citation "${citation}" names no section` };
+  }
+
+  const doc = findCitedDocument(db, parsed);
+  if (!doc) {
+    const candidates = citedNumberCandidates(db, parsed);
+    return candidates.length > 1
+      ? { error: 'ambiguous', message: `"${citation}" matches ${candidates.length} documents; add the year`, candidates }
+      : { error: 'not_found', message: `No document found for "${citation}"` };
+  }
+
+  const pinpoint = [parsed.subsection, parsed.paragraph].filter(p => p).map(p => `(${p})`).join('');
+  return { document_id: doc.id, provision_ref: `s${number}${pinpoint}` };
+}
+
+function citedNumberCandidates(db: Database, parsed: ParsedCitation): string[] {
+  if (!parsed.act_number) return [];
+  return instrumentNumberCandidates(db, parsed.type as DocumentType, parsed.act_number, parsed.year);
+}
+
+function pairTarget(db: Database, request: ProvisionRequest): Target {
+  if (!request?.document_id || !request.provision_ref) {
+    return { error: 'invalid', message: 'Each request needs document_id and provision_ref' };
+  }
+  const resolution = resolveDocument(db, request.document_id);
+  if (!resolution) {
+    const candidates = seriesNumberCandidates(db, request.document_id);
+    return candidates.length > 1
+      ? { error: 'ambiguous', message: `"${request.document_id}" matches ${candidates.length} documents; add the year`, candidates }
+      : { error: 'not_found', message: `No document found matching "${request.document_id}"` };
+  }
+  return { document_id: resolution.id, provision_ref: request.provision_ref, fuzzy: resolution.fuzzy };
+}
+
+export async function getProvisions(
+  db: Database,
+  input: GetProvisionsInput,
+): Promise<ToolResponse<GetProvisionsResult>> {
+  if (!Array.isArray(input.requests) || input.requests.length === 0) {
+    throw new Error('requests must be a non-empty array');
+  }
+  if (input.requests.length > MAX_REQUESTS) {
+    throw new Error(`At most ${MAX_REQUESTS} requests per call`);
+  }
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+
+  const provisions: BatchProvision[] = [];
+  const errors: BatchError[] = [];
+  // Documents answered from the current text because they have no recorded history
+  const withoutHistory = new Set<string>();
+  const fuzzyResolutions: FuzzyResolution[] = [];
+
+  for (const [index, request] of input.requests.entries()) {
+    const target = typeof request === 'string' ? citationTarget(db, request) : pairTarget(db, request);
+    if ('error' in target) {
+      errors.push({ request_index: index, request, ...target });
+      continue;
+    }
+
+    if (target.fuzzy && typeof request !== 'string') {
+      fuzzyResolutions.push({
+        request_index: index,
+        document_id: request.document_id,
+        resolved_document_id: target.document_id,
+        resolved_title: documentTitle(db, target.document_id),
+      });
+    }
+    if (asOfDate !== undefined && !hasProvisionVersions(db, target.document_id)) {
+      withoutHistory.add(target.document_id);
+    }
+    const response = await getProvision(db, {
+      document_id: target.document_id,
+      provision_ref: target.provision_ref,
+      include_ancestors: input.include_ancestors,
+      as_of_date: asOfDate,
+    });
+    const found = response.results;
+    const list = found === null ? [] : 'provisions' in found ? found.provisions : [found];
+    if (list.length === 0) {
+      errors.push({
+        request_index: index,
+        request,
+        error: 'not_found',
+        message: `Provision ${target.provision_ref} not found in ${target.document_id}`,
+      });
+      continue;
+    }
+    provisions.push(...list.map(provision => ({ ...provision, request_index: index })));
+  }
+
+  const notes = [
+    ...fuzzyResolutions.map(f => fuzzyResolutionNote(f.document_id, f.resolved_document_id, f.resolved_title)),
+    withoutHistory.size > 0
+      ? `as_of_date ignored for ${[...withoutHistory].join(', ')}: no historical text is recorded. ` +
+        'Results reflect the current text, which may post-date that date.'
+      : undefined,
+  ].filter(n => n);
+
+  return {
+    results: { provisions, errors },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(asOfDate === undefined ? {} : { as_of_date: asOfDate }),
+      ...(fuzzyResolutions.length > 0 ? { fuzzy_resolutions: fuzzyResolutions } : {}),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    },
+  };
+}
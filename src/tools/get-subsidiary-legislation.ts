@@ -0,0 +1,162 @@
+/**
+ * get_subsidiary_legislation — Instruments made under a Ghanaian Act, and the reverse.
+ *
+ * instruments: Legislative, Constitutional and Executive Instruments made
+ * under the Act (optionally one enabling section), from the curated links.
+ * made_under: the Acts and sections the given instrument was made under.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeProvisionRef, sectionOfProvisionRef } from '../utils/provision-ref.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetSubsidiaryLegislationInput {
+  document_id: string;
+  /** Only instruments made under this enabling section (e.g. "s92") */
+  provision_ref?: string;
+}
+
+export interface SubsidiaryInstrument {
+  document_id: string;
+  title: string;
+  type: string;
+  year: number | null;
+  status: string;
+  /** Sections of the Act relied on; empty when the formula names none */
+  enabling_provisions: string[];
+}
+
+export interface EnablingAuthority {
+  document_id: string;
+  title: string;
+  /** Sections relied on; empty when the formula names none */
+  provision_refs: string[];
+  citation: string | null;
+}
+
+export interface SubsidiaryLegislationResult {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  provision_ref: string | null;
+  made_under: EnablingAuthority[];
+  instruments: SubsidiaryInstrument[];
+}
+
+interface InstrumentRow {
+  document_id: string;
+  title: string;
+  type: string;
+  year: number | null;
+  status: string;
+  enabling_provision_ref: string | null;
+}
+
+interface AuthorityRow {
+  document_id: string;
+  title: string;
+  enabling_provision_ref: string | null;
+  citation: string | null;
+}
+
+/** Fold one row per enabling section into one entry per document. */
+function groupByDocument<T extends { document_id: string; enabling_provision_ref: string | null }, R>(
+  rows: T[],
+  create: (row: T) => R,
+  refs: (entry: R) => string[],
+): R[] {
+  const grouped = new Map<string, R>();
+  for (const row of rows) {
+    let entry = grouped.get(row.document_id);
+    if (!entry) {
+      entry = create(row);
+      grouped.set(row.document_id, entry);
+    }
+    const list = refs(entry);
+    if (row.enabling_provision_ref && !list.includes(row.enabling_provision_ref)) {
+      list.push(row.enabling_provision_ref);
+    }
+  }
+  return [...grouped.values()];
+}
+
+export async function getSubsidiaryLegislation(
+  db: Database,
+  input: GetSubsidiaryLegislationInput,
+): Promise<ToolResponse<SubsidiaryLegislationResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveExistingStatuteId(db, input.document_id);
+  const doc = documentId
+    ? db.prepare('SELECT id, title, type FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string; type: string } | undefined
+    : undefined;
+  if (!doc) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  // Enabling authorities name whole sections
+  const requestedRef = normalizeProvisionRef(input.provision_ref);
+  const provisionRef = requestedRef === null ? null : sectionOfProvisionRef(requestedRef);
+
+  let instrumentRows: InstrumentRow[];
+  let authorityRows: AuthorityRow[];
+  try {
+    instrumentRows = db.prepare(`
+      SELECT ea.instrument_id as document_id, ld.title, ld.type, ld.year, ld.status, ea.enabling_provision_ref
+      FROM enabling_authorities ea
+      JOIN legal_documents ld ON ld.id = ea.instrument_id
+      WHERE ea.enabling_document_id = ? AND (? IS NULL OR ea.enabling_provision_ref = ?)
+      ORDER BY ld.year, ld.act_number, ea.id
+    `).all(doc.id, provisionRef, provisionRef) as InstrumentRow[];
+
+    authorityRows = db.prepare(`
+      SELECT ea.enabling_document_id as document_id, ld.title, ea.enabling_provision_ref, ea.citation
+      FROM enabling_authorities ea
+      JOIN legal_documents ld ON ld.id = ea.enabling_document_id
+      WHERE ea.instrument_id = ?
+      ORDER BY ea.id
+    `).all(doc.id) as AuthorityRow[];
+  } catch {
+    // Pre-v8 database without an enabling_authorities table
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'Enabling authority data is not available in this database.',
+      },
+    };
+  }
+
+  const instruments = groupByDocument(
+    instrumentRows,
+    ({ enabling_provision_ref: _ref, ...row }) => ({ ...row, enabling_provisions: [] as string[] }),
+    entry => entry.enabling_provisions,
+  );
+  const madeUnder = groupByDocument(
+    authorityRows,
+    row => ({ document_id: row.document_id, title: row.title, provision_refs: [] as string[], citation: row.citation }),
+    entry => entry.provision_refs,
+  );
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      document_type: doc.type,
+      provision_ref: provisionRef,
+      made_under: madeUnder,
+      instruments,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
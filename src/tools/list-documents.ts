@@ -0,0 +1,181 @@
+/**
+ * list_documents — Browse the statutes, instruments and decrees in the database.
+ *
+ * Filters by type, status, year, series number and title; pages with an
+ * opaque cursor over a stable sort (year, act_number or title, then id).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildLikePattern } from '../utils/fts-query.js';
+import { decodeCursor, encodeCursor, INVALID_CURSOR_MESSAGE } from '../utils/cursor.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type DocumentSort = 'year' | 'act_number' | 'title';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListDocumentsInput {
+  /** Document type, e.g. act, legislative_instrument, pndc_law */
+  type?: string;
+  status?: string;
+  year_from?: number;
+  year_to?: number;
+  act_number_from?: number;
+  act_number_to?: number;
+  /** Words that must appear in the title, in order */
+  title?: string;
+  sort?: DocumentSort;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface DocumentListing {
+  document_id: string;
+  type: string;
+  title: string;
+  short_name: string | null;
+  act_number: number | null;
+  year: number;
+  status: string;
+  url: string | null;
+  provision_count: number;
+}
+
+export interface ListDocumentsResult {
+  documents: DocumentListing[];
+  /** Documents matching the filters across all pages */
+  total: number;
+  /** Pass as cursor for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+interface DocumentCursor {
+  sort: DocumentSort;
+  order: SortOrder;
+  after: (string | number)[];
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/** Sort columns, ending with the unique id so every position is exact */
+const SORT_KEYS: Record<DocumentSort, { columns: string[]; values: (row: DocumentListing) => (string | number)[] }> = {
+  year: {
+    columns: ['ld.year', 'COALESCE(ld.act_number, 0)', 'ld.id'],
+    values: row => [row.year, row.act_number ?? 0, row.document_id],
+  },
+  act_number: {
+    columns: ['COALESCE(ld.act_number, 0)', 'ld.year', 'ld.id'],
+    values: row => [row.act_number ?? 0, row.year, row.document_id],
+  },
+  title: {
+    columns: ['ld.title COLLATE NOCASE', 'ld.id'],
+    values: row => [row.title, row.document_id],
+  },
+};
+
+function isDocumentCursor(value: unknown): value is DocumentCursor {
+  const cursor = value as DocumentCursor;
+  return typeof cursor === 'object' && cursor !== null
+    && Object.prototype.hasOwnProperty.call(SORT_KEYS, cursor.sort)
+    && (cursor.order === 'asc' || cursor.order === 'desc')
+    && Array.isArray(cursor.after)
+    && cursor.after.length === SORT_KEYS[cursor.sort].columns.length
+    && cursor.after.every(v => typeof v === 'string' || typeof v === 'number');
+}
+
+export async function listDocuments(
+  db: Database,
+  input: ListDocumentsInput,
+): Promise<ToolResponse<ListDocumentsResult>> {
+  const sort = input.sort ?? 'year';
+  if (!Object.prototype.hasOwnProperty.call(SORT_KEYS, sort)) {
+    throw new Error('sort must be one of: year, act_number, title');
+  }
+  const order = input.order ?? 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const cursor = decodeCursor(input.cursor, isDocumentCursor);
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    throw new Error(`${INVALID_CURSOR_MESSAGE} (it was issued for sort=${cursor.sort}, order=${cursor.order})`);
+  }
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (input.type) {
+    conditions.push('ld.type = ?');
+    params.push(input.type);
+  }
+  if (input.status) {
+    conditions.push('ld.status = ?');
+    params.push(input.status);
+  }
+  if (input.year_from != null) {
+    conditions.push('ld.year >= ?');
+    params.push(input.year_from);
+  }
+  if (input.year_to != null) {
+    conditions.push('ld.year <= ?');
+    params.push(input.year_to);
+  }
+  if (input.act_number_from != null) {
+    conditions.push('ld.act_number >= ?');
+    params.push(input.act_number_from);
+  }
+  if (input.act_number_to != null) {
+    conditions.push('ld.act_number <= ?');
+    params.push(input.act_number_to);
+  }
+  if (input.title && input.title.trim().length > 0) {
+    conditions.push('ld.title LIKE ?');
+    params.push(buildLikePattern(input.title));
+  }
+
+  const filter = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { columns, values } = SORT_KEYS[sort];
+
+  const countRow = db.prepare(
+    `SELECT COUNT(*) as count FROM legal_documents ld ${filter}`
+  ).get(...params) as { count: number } | undefined;
+
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  if (cursor) {
+    const placeholders = columns.map(() => '?').join(', ');
+    pageConditions.push(`(${columns.join(', ')}) ${order === 'asc' ? '>' : '<'} (${placeholders})`);
+    pageParams.push(...cursor.after);
+  }
+
+  const rows = db.prepare(`
+    SELECT
+      ld.id as document_id,
+      ld.type,
+      ld.title,
+      ld.short_name,
+      ld.act_number,
+      ld.year,
+      ld.status,
+      ld.url,
+      (SELECT COUNT(*) FROM legal_provisions lp WHERE lp.document_id = ld.id) as provision_count
+    FROM legal_documents ld
+    ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+    ORDER BY ${columns.map(c => `${c} ${order.toUpperCase()}`).join(', ')}
+    LIMIT ?
+  `).all(...pageParams, limit + 1) as DocumentListing[];
+
+  const documents = rows.slice(0, limit);
+  const last = documents[documents.length - 1];
+  const next: DocumentCursor | null = rows.length > limit && last ? { sort, order, after: values(last) } : null;
+
+  return {
+    results: {
+      documents,
+      total: countRow?.count ?? 0,
+      next_cursor: next ? encodeCursor(next) : null,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -18,6 +18,21 @@ import { validateCitationTool, ValidateCitationInput } from './validate-citation
 import { buildLegalStance, BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, FormatCitationInput } from './format-citation.js';
 import { checkCurrency, CheckCurrencyInput } from './check-currency.js';
+import { getDefinition, GetDefinitionInput } from './get-definition.js';
+import { getCrossReferences, GetCrossReferencesInput } from './get-cross-references.js';
+import { getAmendmentHistory, GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { searchCaseLaw, SearchCaseLawInput } from './search-case-law.js';
+import { getCase, GetCaseInput } from './get-case.js';
+import { getPreparatoryWorks, GetPreparatoryWorksInput } from './get-preparatory-works.js';
+import { getSubsidiaryLegislation, GetSubsidiaryLegislationInput } from './get-subsidiary-legislation.js';
+import { getDocumentStructure, GetDocumentStructureInput } from './get-document-structure.js';
+import { listDocuments, ListDocumentsInput } from './list-documents.js';
+import { getProvisions, GetProvisionsInput } from './get-provisions.js';
+import {
+  findSimilarProvisions,
+  FindSimilarProvisionsInput,
+  hasProvisionVectors,
+} from './find-similar-provisions.js';
 import { getEUBasis, GetEUBasisInput } from './get-eu-basis.js';
 import { getGhanaianImplementations, GetGhanaianImplementationsInput } from './get-ghanaian-implementations.js';
 import { searchEUImplementations, SearchEUImplementationsInput } from './search-eu-implementations.js';
@@ -39,26 +54,50 @@ export const TOOLS: Tool[] = [
     name: 'search_legislation',
     description:
       'Search Ghanaian statutes and regulations by keyword. Returns provision-level results with BM25 relevance ranking. ' +
-      'Supports natural language queries (e.g., "data protection rights") and FTS5 syntax (AND, OR, NOT, "phrase", prefix*). ' +
+      'Supports natural language queries (e.g., "data protection rights") and a query language: AND, OR, NOT, "phrase", prefix*, ' +
+      '(grouping), proximity ("Minister NEAR/5 regulations" or NEAR(Minister regulations, 5)) and field scoping ' +
+      '(title:penalty, content:"data subject", title:(offence OR penalty)). Queries with NEAR, a field, parentheses or a prefix* run exactly as written, ' +
+      'and a syntax error is returned with the position of the mistake. ' +
+      'Query words are also searched as their British/American spellings, Ghanaian statutory equivalents and acronym expansions ' +
+      '("license" finds "licence", "NCA" finds "National Communications Authority"); _metadata.query_expansions lists those applied. ' +
+      'If no exact match is found, a Porter-stemmed index matches other forms of each word ("appealed" finds "appeal"); ' +
+      '_metadata.query_strategy is "stemmed" when that tier produced the results. ' +
+      'Misspelled words are corrected from the statute vocabulary: _metadata.did_you_mean carries the corrected query, ' +
+      'and a query that matches nothing as typed is searched as corrected. ' +
       'Results include: document ID, title, provision reference, snippet with >>>highlight<<< markers, and relevance score. ' +
       'Use document_id to filter within a single statute. Use status to filter by in_force/amended/repealed. ' +
-      'Default limit is 10 (max 50). For broad legal research, prefer build_legal_stance instead.',
+      'Set facets to see how a topic spreads across the statute book: results become {hits, total, facets} with counts of ' +
+      'matching provisions per document, year, decade, document type and status, to narrow the next search. ' +
+      '_metadata.total counts all matches; pass _metadata.next_cursor back as cursor, with the same query and filters, ' +
+      'to page through them in a stable order. Default limit is 10 (max 50). For broad legal research, prefer build_legal_stance instead.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query in English. Supports natural language or FTS5 syntax (AND, OR, NOT, "phrase", prefix*). Example: "data protection" OR "personal data"',
+          description: 'Search query in English. Supports natural language or the query language (AND, OR, NOT, "phrase", prefix*, parentheses, NEAR/N, title: and content:). Example: "data protection" OR title:privacy',
         },
         document_id: {
           type: 'string',
-          description: 'Filter to a specific statute by ID (e.g., "act-843-2012") or title (e.g., "Data Protection Act 2012")',
+          description: 'Filter to a specific statute or instrument by ID (e.g., "act-843-2012", "li-2409-2020"), series number (e.g., "L.I. 2409") or title (e.g., "Data Protection Act 2012")',
         },
         status: {
           type: 'string',
           enum: ['in_force', 'amended', 'repealed'],
           description: 'Filter by legislative status. Omit to search all statuses.',
         },
+        document_type: {
+          type: 'string',
+          enum: [
+            'act', 'legislative_instrument', 'constitutional_instrument', 'executive_instrument',
+            'constituent_assembly_act', 'nlc_decree', 'nrc_decree', 'smc_decree', 'afrc_decree', 'pndc_law',
+          ],
+          description: 'Filter by kind of enactment, e.g. legislative_instrument for L.I. regulations or pndc_law for PNDC Laws. Omit to search all.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Search the text in force on this date (ISO YYYY-MM-DD). Uses point-in-time provision versions where the database has them.',
+        },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 10, max: 50). Lower values save tokens.',
@@ -66,6 +105,14 @@ export const TOOLS: Tool[] = [
           minimum: 1,
           maximum: 50,
         },
+        facets: {
+          type: 'boolean',
+          description: 'Also count all matching provisions by document, year, decade, document type and status (default false).',
+        },
+        cursor: {
+          type: 'string',
+          description: '_metadata.next_cursor from the previous page. Keep query and filters unchanged; limit may change.',
+        },
       },
       required: ['query'],
     },
@@ -76,27 +123,127 @@ export const TOOLS: Tool[] = [
       'Retrieve the full text of a specific provision (section) from a Ghanaian statute, or all provisions for a statute if no section is specified. ' +
       'Ghana provisions use section notation: s1, s1(1), s1(2)(a). Pass document_id as either the internal ID (e.g., "act-843-2012") ' +
       'or the human-readable title (e.g., "Data Protection Act 2012"). ' +
-      'Returns: document ID, title, status, provision reference, chapter, section, title, and full content text. ' +
-      'WARNING: Omitting section/provision_ref returns ALL provisions (capped at 200) for the statute.',
+      'Schedules use sch1 and sch1-para3 (or "Schedule 1, paragraph 3"); schedule tables are returned as structured rows. ' +
+      'A subsection or paragraph pinpoint (s1(2)(a)) returns just that unit where the database holds it, otherwise the whole section; ' +
+      'set include_ancestors to also get the section and enclosing subsections. ' +
+      'Set include_navigation for the previous and next provision refs, or context_window for that many neighbouring sections on each side; ' +
+      'for the whole enclosing Part, pass its part instead. ' +
+      'To read a block of an Act, pass part and/or chapter (e.g., part "F", chapter "1"), or a section range such as "s10-s18"; ' +
+      'use get_document_structure first to see the Parts and Chapters. ' +
+      'Returns: document ID, title, status, provision reference, part, chapter, section, title, and full content text. ' +
+      'A Part, Chapter or range (or no selector) returns {provisions, total, truncated, next_cursor} in document order. ' +
+      'WARNING: Omitting section/provision_ref and part/chapter returns ALL provisions for the statute, 200 at a time.',
     inputSchema: {
       type: 'object',
       properties: {
         document_id: {
           type: 'string',
-          description: 'Statute identifier (e.g., "act-843-2012") or title (e.g., "Data Protection Act 2012"). Fuzzy title matching is supported.',
+          description: 'Statute or instrument identifier (e.g., "act-843-2012", "li-2409-2020", "pndcl-152-1985"), series number (e.g., "Act 843", "L.I. 2409", "PNDCL 152") or title (e.g., "Data Protection Act 2012"). Fuzzy title matching is supported.',
+        },
+        part: {
+          type: 'string',
+          description: 'Only provisions in this Part (e.g., "III", "Part III", "Part A", or words of its heading).',
+        },
+        chapter: {
+          type: 'string',
+          description: 'Only provisions in this Chapter (e.g., "5", "Chapter Five", or words of its heading).',
         },
         section: {
           type: 'string',
-          description: 'Section number (e.g., "3", "1(1)"). Matched against provision_ref and section columns.',
+          description: 'Section number (e.g., "3", "1(1)") or range (e.g., "10-18"). Matched against provision_ref and section columns.',
         },
         provision_ref: {
           type: 'string',
-          description: 'Direct provision reference (e.g., "s1(1)", "s3"). Takes precedence over section if both provided.',
+          description: 'Direct provision reference (e.g., "s1(1)", "s3", "sch1", "sch2-para3") or range ("s10-s18"). Takes precedence over section if provided.',
+        },
+        include_ancestors: {
+          type: 'boolean',
+          description: 'With a subsection or paragraph pinpoint, also return the enclosing section and units, outermost first (default false).',
+        },
+        include_navigation: {
+          type: 'boolean',
+          description: 'Also return prev_provision_ref and next_provision_ref in document order (default false).',
+        },
+        context_window: {
+          type: 'number',
+          description: 'Also return this many neighbouring provisions before and after as context_before and context_after (default 0, max 10).',
+          minimum: 0,
+          maximum: 10,
+        },
+        limit: {
+          type: 'number',
+          description: 'Provisions per page when several are returned (default: 200, max: 200).',
+          default: 200,
+          minimum: 1,
+          maximum: 200,
+        },
+        offset: {
+          type: 'number',
+          description: 'Provisions to skip when several are returned (ignored with cursor).',
+        },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from the previous page, with the same document_id, part, chapter and range.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Return the text in force on this date (ISO YYYY-MM-DD). Uses point-in-time provision versions where the database has them.',
         },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'get_provisions',
+    description:
+      'Retrieve several provisions in one call, from one or many statutes — use instead of repeated get_provision calls. ' +
+      'Each request is either a {document_id, provision_ref} pair (e.g., {"document_id": "Act 843", "provision_ref": "s17"}) ' +
+      'or a citation string (e.g., "Section 3, Data Protection Act 2012 (Act 843)"). ' +
+      'Returns provisions in request order, each with request_index, and an errors list naming requests that were ' +
+      'not_found, ambiguous (e.g., "Act 11" without a year; candidates listed) or invalid. Up to 25 requests.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        requests: {
+          type: 'array',
+          description: 'Provisions to retrieve: {document_id, provision_ref} objects or citation strings.',
+          minItems: 1,
+          maxItems: 25,
+          items: {
+            oneOf: [
+              {
+                type: 'object',
+                properties: {
+                  document_id: {
+                    type: 'string',
+                    description: 'Statute identifier, series number or title',
+                  },
+                  provision_ref: {
+                    type: 'string',
+                    description: 'Provision reference (e.g., "s3", "s1(2)(a)", "sch1")',
+                  },
+                },
+                required: ['document_id', 'provision_ref'],
+              },
+              {
+                type: 'string',
+                description: 'Citation (e.g., "Section 3, Data Protection Act 2012 (Act 843)")',
+              },
+            ],
+          },
+        },
+        include_ancestors: {
+          type: 'boolean',
+          description: 'For subsection or paragraph pinpoints, also return the enclosing section and units (default false).',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Return the text in force on this date (ISO YYYY-MM-DD).',
+        },
+      },
+      required: ['requests'],
+    },
+  },
   {
     name: 'list_sources',
     description:
@@ -113,14 +260,15 @@ export const TOOLS: Tool[] = [
     description:
       'Validate a Ghanaian legal citation against the database. Returns whether the cited statute and provision exist. ' +
       'Use this as a zero-hallucination check before presenting legal references to users. ' +
-      'Supported formats: "Section 1, Data Protection Act 2012 (Act 843)", "Data Protection Act 2012, s. 1", "act-843-2012, s. 1". ' +
+      'Supported formats: "Section 1, Data Protection Act 2012 (Act 843)", "Data Protection Act 2012, s. 1", "act-843-2012, s. 1", ' +
+      '"Section 3, PNDCL 152". ' +
       'Returns: valid (boolean), parsed components, warnings about repealed/amended status.',
     inputSchema: {
       type: 'object',
       properties: {
         citation: {
           type: 'string',
-          description: 'Ghanaian legal citation to validate. Examples: "Section 1, Data Protection Act 2012 (Act 843)", "Cybersecurity Act 2020, s. 1", "act-843-2012, s. 1"',
+          description: 'Ghanaian legal citation to validate. Examples: "Section 1, Data Protection Act 2012 (Act 843)", "Cybersecurity Act 2020, s. 1", "act-843-2012, s. 1", "Regulation 1, Labour Regulations 2007 (L.I. 1833)"',
         },
       },
       required: ['citation'],
@@ -144,6 +292,20 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Optionally limit search to one statute by ID or title',
         },
+        include_preparatory_works: {
+          type: 'boolean',
+          description: 'Also return explanatory memoranda, Hansard debates and committee reports on the question (default: false)',
+          default: false,
+        },
+        include_case_law: {
+          type: 'boolean',
+          description: 'Also return judgments of the superior courts on the question (default: false). With as_of_date, only judgments decided by that date.',
+          default: false,
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Cite the text in force on this date (ISO YYYY-MM-DD). Uses point-in-time provision versions where the database has them.',
+        },
         limit: {
           type: 'number',
           description: 'Max results per category (default: 5, max: 20)',
@@ -196,10 +358,358 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Optional provision reference to check a specific section (e.g., "s3")',
         },
+        as_of_date: {
+          type: 'string',
+          description: 'Check currency on this date instead of today (ISO YYYY-MM-DD): status and is_current reflect commencement and any repeal in effect by then. Uses point-in-time provision versions where the database has them.',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_definition',
+    description:
+      'Look up the statutory definition of a term (e.g., "personal data", "data controller") from the Interpretation sections of Ghanaian statutes. ' +
+      'Searches one statute when document_id is given, otherwise all statutes. Exact term matches are returned first, then close matches. ' +
+      'Returns: term, definition text, source provision (e.g., "s96"), document ID, title, and status. ' +
+      'Quote the statutory meaning from this tool instead of paraphrasing a term.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: {
+          type: 'string',
+          description: 'Defined term to look up (e.g., "personal data", "Commission")',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optionally limit lookup to one statute by ID (e.g., "act-843-2012") or title (e.g., "Data Protection Act 2012")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum definitions to return (default: 10, max: 50)',
+          default: 10,
+          minimum: 1,
+          maximum: 50,
+        },
+      },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'get_cross_references',
+    description:
+      'Citator for Ghanaian statutes: what a statute or provision cites (outbound) and what cites it (inbound). ' +
+      'Example: inbound references to section 1 of the Data Protection Act 2012 (Act 843) list every Act that builds on it. ' +
+      'Results are grouped by statute, with the citation text and a context snippet for each reference. ' +
+      'depth > 1 follows references onward at statute level (e.g., Acts citing the Acts that cite this one).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-843-2012") or title (e.g., "Data Protection Act 2012")',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional provision reference (e.g., "s1", "1", "section 12(1)"); a pinpoint is looked up by its section. Omit for statute-level references.',
+        },
+        direction: {
+          type: 'string',
+          enum: ['outbound', 'inbound', 'both'],
+          description: 'Which references to return (default: both)',
+          default: 'both',
+        },
+        depth: {
+          type: 'number',
+          description: 'Traversal depth (default: 1, max: 3)',
+          default: 1,
+          minimum: 1,
+          maximum: 3,
+        },
+        include_internal: {
+          type: 'boolean',
+          description: 'Include references between sections of the same statute. Defaults to true when provision_ref is given, false otherwise.',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_amendment_history',
+    description:
+      'Amendment and repeal history of a Ghanaian statute: which Acts amended or repealed it, which provisions were affected, ' +
+      'the effective date, and the kind of change (insertion, substitution, repeal, amendment). ' +
+      'Example: the Cybersecurity Act 2020 (Act 1038) repealed sections 118 and 136 of the Electronic Transactions Act 2008 (Act 772). ' +
+      'Use direction "amends" to see what a statute changed in other enactments. Built from amending Acts\' text and a curated list.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-772-2008") or title (e.g., "Electronic Transactions Act 2008")',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional provision reference (e.g., "s118", "118") to limit history to changes affecting it',
+        },
+        direction: {
+          type: 'string',
+          enum: ['amended_by', 'amends', 'both'],
+          description: 'amended_by (default): changes made to this statute. amends: changes it made to other enactments.',
+          default: 'amended_by',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'search_case_law',
+    description:
+      'Full-text search across judgments of the Ghanaian Supreme Court (GHASC), Court of Appeal (GHACA) and High Court (GHAHC) from GhanaLII. ' +
+      'Returns case IDs, neutral citations (e.g., "[2019] GHASC 45"), decision dates and snippets. ' +
+      'Use document_id to find judgments citing a statute, and get_case to read a judgment in full. ' +
+      'Returns no results, with a note, until judgments are ingested; the published database has none yet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query in English (e.g., "unlawful dismissal"). Supports FTS5 syntax.',
+        },
+        court: {
+          type: 'string',
+          enum: ['GHASC', 'GHACA', 'GHAHC'],
+          description: 'Filter by court. Omit to search all courts.',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Only judgments citing this statute, by ID (e.g., "act-651-2003") or title',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'With document_id: only judgments citing this provision (e.g., "s63")',
+        },
+        date_from: { type: 'string', description: 'Decided on or after this date (ISO YYYY-MM-DD)' },
+        date_to: { type: 'string', description: 'Decided on or before this date (ISO YYYY-MM-DD)' },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (default: 10, max: 50)',
+          default: 10,
+          minimum: 1,
+          maximum: 50,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_case',
+    description:
+      'Retrieve a Ghanaian judgment by case ID (e.g., "ghasc-2019-45") or neutral citation (e.g., "[2019] GHASC 45"). ' +
+      'Returns court, parties, judges, decision date, the judgment text, and the statute provisions it cites. ' +
+      'Returns null, with a note, until judgments are ingested; the published database has none yet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        case_id: {
+          type: 'string',
+          description: 'Case ID from search_case_law or a neutral citation',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Maximum characters of judgment text to return (default: 20000)',
+          default: 20000,
+          minimum: 1,
+        },
+      },
+      required: ['case_id'],
+    },
+  },
+  {
+    name: 'get_preparatory_works',
+    description:
+      'Legislative history of a Ghanaian Act: the explanatory memorandum to the Bill, Parliamentary Hansard debates, committee reports and the Bill itself. ' +
+      'Use for purposive interpretation — what Parliament intended a provision to achieve. ' +
+      'Filter by type, or pass a query to return only matching items with snippets. ' +
+      'Returns no items, with a note, until preparatory works are ingested; the published database has none yet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-843-2012") or title (e.g., "Data Protection Act 2012")',
+        },
+        type: {
+          type: 'string',
+          enum: ['memorandum', 'hansard', 'committee_report', 'bill'],
+          description: 'Filter by kind of document. Omit to return all.',
+        },
+        query: {
+          type: 'string',
+          description: 'Optional text to search for within the Act\'s preparatory works (e.g., "consent")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum items to return (default: 20, max: 50)',
+          default: 20,
+          minimum: 1,
+          maximum: 50,
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Maximum characters of text per item (default: 5000)',
+          default: 5000,
+          minimum: 1,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_subsidiary_legislation',
+    description:
+      'List the Legislative, Constitutional and Executive Instruments made under a Ghanaian Act, from a curated list of enabling authorities ' +
+      '(the instrument texts in the database carry no enacting formulas), so instruments not yet curated are not listed. ' +
+      'Pass provision_ref to list only instruments made under one enabling section. ' +
+      'Given an instrument, made_under names its parent Act and enabling sections.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Act or instrument identifier (e.g., "act-843-2012", "L.I. 2409") or title',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: enabling section of the Act (e.g., "s92" or "92")',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_document_structure',
+    description:
+      'Table of contents of a Ghanaian statute or instrument: Chapters, Parts, section titles ' +
+      'and Schedules as a nested tree in document order, without provision text. ' +
+      'Use it to find where to look before calling get_provision, instead of retrieving every provision. ' +
+      'Each section and schedule node carries the provision_ref to pass to get_provision.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute or instrument identifier (e.g., "act-992-2019", "li-2409-2020"), series number (e.g., "Act 992") or title',
+        },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'list_documents',
+    description:
+      'Browse the statutes, instruments and decrees in the database, e.g. all Acts passed in 2020 or all PNDC Laws still in force. ' +
+      'Filter by type, status, year range, series number range and title words; sort by year, act_number or title. ' +
+      'Returns document ID, type, title, short name, series number, year, status, URL and provision count per document, ' +
+      'the total matching, and next_cursor — pass it back as cursor (with the same sort and order) for the next page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [
+            'act', 'legislative_instrument', 'constitutional_instrument', 'executive_instrument',
+            'constituent_assembly_act', 'nlc_decree', 'nrc_decree', 'smc_decree', 'afrc_decree', 'pndc_law',
+          ],
+          description: 'Filter by kind of enactment. Omit to list all.',
+        },
+        status: {
+          type: 'string',
+          enum: ['in_force', 'amended', 'repealed'],
+          description: 'Filter by status.',
+        },
+        year_from: {
+          type: 'number',
+          description: 'Earliest year (inclusive).',
+        },
+        year_to: {
+          type: 'number',
+          description: 'Latest year (inclusive).',
+        },
+        act_number_from: {
+          type: 'number',
+          description: 'Lowest Act, L.I. or PNDCL number (inclusive).',
+        },
+        act_number_to: {
+          type: 'number',
+          description: 'Highest Act, L.I. or PNDCL number (inclusive).',
+        },
+        title: {
+          type: 'string',
+          description: 'Words that must appear in the title, in order (e.g., "Data Protection").',
+        },
+        sort: {
+          type: 'string',
+          enum: ['year', 'act_number', 'title'],
+          description: 'Sort key (default: year).',
+        },
+        order: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort order (default: asc).',
+        },
+        limit: {
+          type: 'number',
+          description: 'Documents per page (default: 20, max: 100).',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
+        },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from the previous page.',
+        },
+      },
+    },
+  },
+  {
+    name: 'find_similar_provisions',
+    description:
+      'Find provisions across all Ghanaian statutes that read like a given provision or passage, e.g. other Acts\' offence, ' +
+      'penalty or confidentiality sections resembling section 27 of the Cybersecurity Act. ' +
+      'Ranks by TF-IDF cosine similarity over the whole statute book, so it surfaces provisions that share distinctive vocabulary ' +
+      'even where a keyword search would need the exact words; it does not know synonyms. ' +
+      'Pass document_id and provision_ref for a provision, or text for a passage. ' +
+      'Returns document ID and title, provision reference, title, similarity (0-1), the shared terms that drove the score, and an excerpt.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute of the source provision (e.g., "act-1038-2020" or "Cybersecurity Act 2020").',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Source provision (e.g., "s27", "sch1"). A subsection pinpoint uses its whole section.',
+        },
+        text: {
+          type: 'string',
+          description: 'A passage to match instead of a stored provision.',
+        },
+        exclude_same_document: {
+          type: 'boolean',
+          description: 'Leave out provisions of the source provision\'s own statute (default false).',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 10, max: 50).',
+          default: 10,
+          minimum: 1,
+          maximum: 50,
+        },
+      },
+    },
+  },
   {
     name: 'get_eu_basis',
     description:
@@ -347,8 +857,16 @@ const EU_TOOL_NAMES = new Set([
   'validate_eu_compliance',
 ]);
 
+const CASE_LAW_TOOL_NAMES = new Set(['search_case_law', 'get_case']);
+
 export function buildTools(db?: InstanceType<typeof Database>, context?: AboutContext): Tool[] {
   let hasEuData = false;
+  let hasCrossReferenceData = false;
+  let hasAmendmentData = false;
+  let hasCaseLawData = false;
+  let hasPreparatoryWorksData = false;
+  let hasEnablingAuthorityData = false;
+  let hasProvisionVectorData = false;
 
   if (db) {
     // Check if EU reference tables exist AND have data
@@ -358,10 +876,57 @@ export function buildTools(db?: InstanceType<typeof Database>, context?: AboutCo
     } catch {
       // Table doesn't exist — EU tools will be hidden
     }
+
+    // Cross-references are only populated by schema v3+ builds
+    try {
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM cross_references').get() as { cnt: number };
+      if (row.cnt > 0) hasCrossReferenceData = true;
+    } catch {
+      // Table doesn't exist — citator will be hidden
+    }
+
+    // Amendments are only populated by schema v5+ builds
+    try {
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM amendments').get() as { cnt: number };
+      if (row.cnt > 0) hasAmendmentData = true;
+    } catch {
+      // Table doesn't exist — amendment history will be hidden
+    }
+
+    try {
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM case_law').get() as { cnt: number };
+      if (row.cnt > 0) hasCaseLawData = true;
+    } catch {
+      // Table doesn't exist — case law tools will be hidden
+    }
+
+    try {
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM preparatory_works').get() as { cnt: number };
+      if (row.cnt > 0) hasPreparatoryWorksData = true;
+    } catch {
+      // Table doesn't exist — preparatory works will be hidden
+    }
+
+    // Enabling authorities are only populated by schema v8+ builds
+    try {
+      const row = db.prepare('SELECT COUNT(*) as cnt FROM enabling_authorities').get() as { cnt: number };
+      if (row.cnt > 0) hasEnablingAuthorityData = true;
+    } catch {
+      // Table doesn't exist — subsidiary legislation will be hidden
+    }
+
+    // Similarity vectors are only built by schema v13+ builds
+    hasProvisionVectorData = hasProvisionVectors(db);
   }
 
   const tools = TOOLS.filter(t => {
     if (EU_TOOL_NAMES.has(t.name) && !hasEuData) return false;
+    if (t.name === 'get_cross_references' && !hasCrossReferenceData) return false;
+    if (t.name === 'get_amendment_history' && !hasAmendmentData) return false;
+    if (CASE_LAW_TOOL_NAMES.has(t.name) && !hasCaseLawData) return false;
+    if (t.name === 'get_preparatory_works' && !hasPreparatoryWorksData) return false;
+    if (t.name === 'get_subsidiary_legislation' && !hasEnablingAuthorityData) return false;
+    if (t.name === 'find_similar_provisions' && !hasProvisionVectorData) return false;
     return true;
   });
 
@@ -396,6 +961,9 @@ export function registerTools(
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'get_provisions':
+          result = await getProvisions(db, args as unknown as GetProvisionsInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
@@ -411,6 +979,36 @@ export function registerTools(
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
           break;
+        case 'get_definition':
+          result = await getDefinition(db, args as unknown as GetDefinitionInput);
+          break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'search_case_law':
+          result = await searchCaseLaw(db, args as unknown as SearchCaseLawInput);
+          break;
+        case 'get_case':
+          result = await getCase(db, args as unknown as GetCaseInput);
+          break;
+        case 'get_preparatory_works':
+          result = await getPreparatoryWorks(db, args as unknown as GetPreparatoryWorksInput);
+          break;
+        case 'get_subsidiary_legislation':
+          result = await getSubsidiaryLegislation(db, args as unknown as GetSubsidiaryLegislationInput);
+          break;
+        case 'get_document_structure':
+          result = await getDocumentStructure(db, args as unknown as GetDocumentStructureInput);
+          break;
+        case 'list_documents':
+          result = await listDocuments(db, args as unknown as ListDocumentsInput);
+          break;
+        case 'find_similar_provisions':
+          result = await findSimilarProvisions(db, args as unknown as FindSimilarProvisionsInput);
+          break;
         case 'get_eu_basis':
           result = await getEUBasis(db, args as unknown as GetEUBasisInput);
           break;
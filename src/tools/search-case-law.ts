@@ -0,0 +1,219 @@
+/**
+ * search_case_law — Full-text search across Ghanaian superior court judgments.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type CourtCode = 'GHASC' | 'GHACA' | 'GHAHC';
+
+export const COURT_NAMES: Record<CourtCode, string> = {
+  GHASC: 'Supreme Court',
+  GHACA: 'Court of Appeal',
+  GHAHC: 'High Court',
+};
+
+export interface SearchCaseLawInput {
+  query: string;
+  court?: string;
+  document_id?: string;
+  provision_ref?: string;
+  date_from?: string;
+  date_to?: string;
+  limit?: number;
+}
+
+export interface CaseLawHit {
+  case_id: string;
+  neutral_citation: string;
+  title: string;
+  court: string;
+  decision_date: string | null;
+  snippet: string;
+  relevance: number;
+}
+
+export interface CaseSearchOptions {
+  court?: CourtCode;
+  /** Only judgments citing this statute */
+  documentId?: string;
+  /** With documentId: only judgments citing this provision */
+  provisionRef?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export const CASE_LAW_UNAVAILABLE_NOTE =
+  'Case law is not available in this database: no judgments have been ingested (npm run ingest:cases), so results are empty.';
+
+/**
+ * Whether the database carries judgments (schema v6+ with ingested case law).
+ */
+export function hasCaseLaw(db: Database): boolean {
+  try {
+    const row = db.prepare('SELECT COUNT(*) as cnt FROM case_law').get() as { cnt: number };
+    return row.cnt > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tiered judgment search shared by search_case_law and build_legal_stance:
+ * FTS5 variants most-specific first, then a LIKE fallback on the text.
+ */
+export function findCases(
+  db: Database,
+  query: string,
+  options: CaseSearchOptions,
+): { hits: CaseLawHit[]; queryStrategy: 'exact' | 'broadened' | 'like_fallback' | 'none' } {
+  const filters: string[] = [];
+  const filterParams: (string | number)[] = [];
+
+  if (options.court) {
+    filters.push('cl.court = ?');
+    filterParams.push(options.court);
+  }
+  if (options.dateFrom) {
+    filters.push('cl.decision_date >= ?');
+    filterParams.push(options.dateFrom);
+  }
+  if (options.dateTo) {
+    filters.push('cl.decision_date <= ?');
+    filterParams.push(options.dateTo);
+  }
+  if (options.documentId) {
+    const provisionFilter = options.provisionRef ? ' AND provision_ref = ?' : '';
+    filters.push(`cl.id IN (SELECT case_law_id FROM case_law_citations WHERE document_id = ?${provisionFilter})`);
+    filterParams.push(options.documentId);
+    if (options.provisionRef) filterParams.push(options.provisionRef);
+  }
+  const filterSql = filters.map(f => ` AND ${f}`).join('');
+
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(query));
+  for (const ftsQuery of queryVariants) {
+    const sql = `
+      SELECT
+        cl.case_id,
+        cl.neutral_citation,
+        cl.title,
+        cl.court,
+        cl.decision_date,
+        snippet(case_law_fts, 2, '>>>', '<<<', '...', 32) as snippet,
+        bm25(case_law_fts) as relevance
+      FROM case_law_fts
+      JOIN case_law cl ON cl.id = case_law_fts.rowid
+      WHERE case_law_fts MATCH ?${filterSql}
+      ORDER BY relevance
+      LIMIT ?
+    `;
+
+    try {
+      const hits = db.prepare(sql).all(ftsQuery, ...filterParams, options.limit) as CaseLawHit[];
+      if (hits.length > 0) {
+        return { hits, queryStrategy: ftsQuery === queryVariants[0] ? 'exact' : 'broadened' };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  // LIKE fallback — final tier when FTS5 returns no results
+  try {
+    const hits = db.prepare(`
+      SELECT
+        cl.case_id,
+        cl.neutral_citation,
+        cl.title,
+        cl.court,
+        cl.decision_date,
+        substr(cl.content, 1, 300) as snippet,
+        0 as relevance
+      FROM case_law cl
+      WHERE cl.content LIKE ?${filterSql}
+      ORDER BY cl.decision_date DESC
+      LIMIT ?
+    `).all(buildLikePattern(sanitizeFtsInput(query)), ...filterParams, options.limit) as CaseLawHit[];
+    if (hits.length > 0) {
+      return { hits, queryStrategy: 'like_fallback' };
+    }
+  } catch {
+    // LIKE query failed
+  }
+
+  return { hits: [], queryStrategy: 'none' };
+}
+
+function normalizeCourt(court: string | undefined): CourtCode | undefined {
+  if (!court) return undefined;
+  const upper = court.trim().toUpperCase();
+  if (upper in COURT_NAMES) return upper as CourtCode;
+  const byName = (Object.entries(COURT_NAMES) as [CourtCode, string][])
+    .find(([, name]) => name.toUpperCase() === upper);
+  if (byName) return byName[0];
+  throw new Error(`court must be one of ${Object.keys(COURT_NAMES).join(', ')}`);
+}
+
+export async function searchCaseLaw(
+  db: Database,
+  input: SearchCaseLawInput,
+): Promise<ToolResponse<CaseLawHit[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  if (!hasCaseLaw(db)) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), note: CASE_LAW_UNAVAILABLE_NOTE },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const court = normalizeCourt(input.court);
+  const dateFrom = normalizeAsOfDate(input.date_from);
+  const dateTo = normalizeAsOfDate(input.date_to);
+
+  let documentId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    documentId = resolved;
+  }
+
+  const provisionRef = input.provision_ref?.trim()
+    ? (/^\d/.test(input.provision_ref.trim()) ? `s${input.provision_ref.trim()}` : input.provision_ref.trim().toLowerCase())
+    : undefined;
+
+  const { hits, queryStrategy } = findCases(db, input.query, {
+    court,
+    documentId,
+    provisionRef: documentId ? provisionRef : undefined,
+    dateFrom,
+    dateTo,
+    limit,
+  });
+
+  return {
+    results: hits,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(queryStrategy === 'broadened' || queryStrategy === 'like_fallback' ? { query_strategy: queryStrategy } : {}),
+    },
+  };
+}
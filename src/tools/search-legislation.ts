@@ -3,17 +3,44 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import type { DocumentStatus, DocumentType } from '../types/index.js';
+import {
+  buildFtsQueryVariants,
+  buildLikePattern,
+  buildStemmedFtsQueryVariants,
+  type FtsQueryVariant,
+  sanitizeFtsInput,
+} from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import {
+  AS_OF_UNAVAILABLE_NOTE,
+  AS_OF_VERSION_FILTER,
+  hasProvisionVersions,
+  hasStemmedIndex,
+  provisionTables,
+} from '../utils/provision-versions.js';
+import { findQueryExpansions } from '../utils/thesaurus.js';
+import { suggestCorrection } from '../utils/trigram.js';
+import { compileSearchQuery, parseSearchQuery, usesQuerySyntax } from '../utils/query-language.js';
+import { decodeCursor, encodeCursor, INVALID_CURSOR_MESSAGE } from '../utils/cursor.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { generateResponseMetadata, type ResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SearchLegislationInput {
   query: string;
   document_id?: string;
   status?: string;
+  /**
+   * act, legislative_instrument, constitutional_instrument, executive_instrument,
+   * or a pre-1992 series: constituent_assembly_act, nlc_decree, nrc_decree, smc_decree, afrc_decree, pndc_law
+   */
+  document_type?: string;
   as_of_date?: string;
   limit?: number;
+  /** Also count every matching provision by document, year, decade, type and status */
+  facets?: boolean;
+  /** next_cursor from the previous page */
+  cursor?: string;
 }
 
 export interface SearchLegislationResult {
@@ -27,13 +54,113 @@ export interface SearchLegislationResult {
   relevance: number;
 }
 
+export interface SearchFacets {
+  /** Most matching provisions first */
+  documents: { document_id: string; document_title: string; count: number }[];
+  /** Oldest first */
+  years: { year: number; count: number }[];
+  /** "1990s"; oldest first */
+  decades: { decade: string; count: number }[];
+  document_types: { document_type: DocumentType; count: number }[];
+  statuses: { status: DocumentStatus; count: number }[];
+}
+
+export interface FacetedSearchResult {
+  /** The top-ranked provisions, as without facets */
+  hits: SearchLegislationResult[];
+  /** Matching provisions across all documents */
+  total: number;
+  facets: SearchFacets;
+}
+
+/**
+ * One tier of the search: an FTS variant, or the LIKE fallback. `from` joins
+ * the provision table as lp and legal_documents as ld.
+ */
+interface Tier {
+  /** snippet and relevance */
+  columns: string;
+  from: string;
+  where: string;
+  params: (string | number)[];
+  orderBy: string;
+}
+
+/**
+ * Where the next page starts: the query and filters it was issued for, the
+ * tier that matched (FTS variant or LIKE pattern) and the rows already read.
+ */
+interface SearchCursor {
+  query: string;
+  filters: (string | null)[];
+  tier: 'fts' | 'stemmed' | 'like';
+  variant: string;
+  /** query_strategy of the first page */
+  strategy?: string;
+  offset: number;
+}
+
+function isSearchCursor(value: unknown): value is SearchCursor {
+  const cursor = value as SearchCursor;
+  return typeof cursor === 'object' && cursor !== null
+    && typeof cursor.query === 'string'
+    && Array.isArray(cursor.filters)
+    && cursor.filters.every(v => v === null || typeof v === 'string')
+    && (cursor.tier === 'fts' || cursor.tier === 'stemmed' || cursor.tier === 'like')
+    && typeof cursor.variant === 'string'
+    && (cursor.strategy === undefined || typeof cursor.strategy === 'string')
+    && Number.isInteger(cursor.offset) && cursor.offset >= 0;
+}
+
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
+/** Documents listed in the documents facet */
+const MAX_DOCUMENT_FACETS = 50;
+
+/**
+ * Count matching provisions by facet. `from` joins the provision table as lp
+ * and legal_documents as ld; `where` and its params select the matches.
+ */
+function countFacets(
+  db: Database,
+  from: string,
+  where: string,
+  params: (string | number)[],
+): Omit<FacetedSearchResult, 'hits'> {
+  const grouped = <T>(columns: string, groupBy: string, orderBy: string, limit?: number) => db.prepare(`
+    SELECT ${columns}, COUNT(*) as count
+    FROM ${from}
+    WHERE ${where}
+    GROUP BY ${groupBy}
+    ORDER BY ${orderBy}${limit ? ` LIMIT ${limit}` : ''}
+  `).all(...params) as T[];
+
+  const years = grouped<{ year: number; count: number }>('ld.year as year', 'ld.year', 'ld.year');
+  const decades = new Map<string, number>();
+  for (const { year, count } of years) {
+    const decade = `${Math.floor(year / 10) * 10}s`;
+    decades.set(decade, (decades.get(decade) ?? 0) + count);
+  }
+
+  return {
+    total: years.reduce((sum, { count }) => sum + count, 0),
+    facets: {
+      documents: grouped(
+        'lp.document_id as document_id, ld.title as document_title', 'lp.document_id', 'count DESC, lp.document_id',
+        MAX_DOCUMENT_FACETS,
+      ),
+      years,
+      decades: [...decades].map(([decade, count]) => ({ decade, count })),
+      document_types: grouped('ld.type as document_type', 'ld.type', 'count DESC, ld.type'),
+      statuses: grouped('ld.status as status', 'ld.status', 'count DESC, ld.status'),
+    },
+  };
+}
 
 export async function searchLegislation(
   db: Database,
   input: SearchLegislationInput,
-): Promise<ToolResponse<SearchLegislationResult[]>> {
+): Promise<ToolResponse<SearchLegislationResult[] | FacetedSearchResult>> {
   if (!input.query || input.query.trim().length === 0) {
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
@@ -41,9 +168,26 @@ export async function searchLegislation(
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   // Fetch extra rows to account for deduplication
   const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const sanitized = sanitizeFtsInput(input.query);
+  // Queries that need the query language run as written: no thesaurus,
+  // broader tiers, LIKE fallback or spelling retry. Throws on a syntax error.
+  const structured = usesQuerySyntax(input.query) ? compileSearchQuery(parseSearchQuery(input.query)) : undefined;
+  const expansions = structured ? [] : findQueryExpansions(db, sanitized);
   // Validate as_of_date if provided (throws on invalid format)
-  if (input.as_of_date) normalizeAsOfDate(input.as_of_date);
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const useVersions = asOfDate !== undefined && hasProvisionVersions(db);
+  const tables = provisionTables(useVersions);
+  const stemmedIndex = hasStemmedIndex(db, tables.stemmedFts);
+  const queryVariants: FtsQueryVariant[] = structured
+    ? [{ query: structured, stemmed: false }, ...(stemmedIndex ? [{ query: structured, stemmed: true }] : [])]
+    : stemmedIndex
+      ? buildStemmedFtsQueryVariants(sanitized, expansions)
+      : buildFtsQueryVariants(sanitized, expansions).map(query => ({ query, stemmed: false }));
+  // Variants that differ from the unexpanded ones searched thesaurus equivalents
+  const plainVariants = new Set(buildFtsQueryVariants(sanitized));
+  const dateMetadata = asOfDate === undefined
+    ? {}
+    : useVersions ? { as_of_date: asOfDate } : { note: AS_OF_UNAVAILABLE_NOTE };
 
   // Resolve document_id from title if provided (same resolution as get_provision)
   let resolvedDocId: string | undefined;
@@ -61,125 +205,210 @@ export async function searchLegislation(
     }
   }
 
-  let queryStrategy = 'none';
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (resolvedDocId) {
-      sql += ' AND lp.document_id = ?';
-      params.push(resolvedDocId);
-    }
+  // Did you mean: worth the lookup only when the query did not match as typed
+  const didYouMean = (): Partial<ResponseMetadata> => {
+    const correction = suggestCorrection(db, sanitized);
+    return correction ? { did_you_mean: correction.query, corrections: correction.corrections } : {};
+  };
 
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
-    }
+  // Filters shared by every tier
+  let filterSql = '';
+  const filterParams: (string | number)[] = [];
+  if (useVersions) {
+    filterSql += ` AND ${AS_OF_VERSION_FILTER}`;
+    filterParams.push(asOfDate!, asOfDate!);
+  }
+  if (resolvedDocId) {
+    filterSql += ' AND lp.document_id = ?';
+    filterParams.push(resolvedDocId);
+  }
+  if (input.status) {
+    filterSql += ' AND ld.status = ?';
+    filterParams.push(input.status);
+  }
+  if (input.document_type) {
+    filterSql += ' AND ld.type = ?';
+    filterParams.push(input.document_type);
+  }
+
+  const ftsTier = (ftsQuery: string, stemmed: boolean): Tier => {
+    const fts = stemmed ? tables.stemmedFts : tables.fts;
+    return {
+      columns: `snippet(${fts}, 0, '>>>', '<<<', '...', 32) as snippet, bm25(${fts}) as relevance`,
+      from: `
+        ${fts}
+        JOIN ${tables.provisions} lp ON lp.id = ${fts}.rowid
+        JOIN legal_documents ld ON ld.id = lp.document_id`,
+      where: `${fts} MATCH ?${filterSql}`,
+      params: [ftsQuery, ...filterParams],
+      // Provision id breaks relevance ties so pages never overlap
+      orderBy: 'relevance, lp.id',
+    };
+  };
+  const likeTier = (likePattern: string): Tier => ({
+    columns: 'substr(lp.content, 1, 200) as snippet, 0 as relevance',
+    from: `
+      ${tables.provisions} lp
+      JOIN legal_documents ld ON ld.id = lp.document_id`,
+    where: `lp.content LIKE ?${filterSql}`,
+    params: [likePattern, ...filterParams],
+    orderBy: 'lp.id',
+  });
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(fetchLimit);
+  const fetchPage = (tier: Tier, offset: number) => db.prepare(`
+    SELECT
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      ${tier.columns}
+    FROM ${tier.from}
+    WHERE ${tier.where}
+    ORDER BY ${tier.orderBy}
+    LIMIT ? OFFSET ?
+  `).all(...tier.params, fetchLimit, offset) as SearchLegislationResult[];
 
+  /**
+   * A page of hits with the tier's total and a cursor pinned to that tier, so
+   * later pages search the same variant. With facets, hits come back
+   * alongside counts over every match of the tier.
+   */
+  const respond = (
+    tier: Tier,
+    rows: SearchLegislationResult[],
+    position: SearchCursor,
+    metadata: Partial<ResponseMetadata>,
+  ): ToolResponse<SearchLegislationResult[] | FacetedSearchResult> => {
+    const { hits, consumed } = deduplicateResults(rows, limit);
+    const counted = input.facets ? countFacets(db, tier.from, tier.where, tier.params) : undefined;
+    const total = counted?.total ?? (db.prepare(
+      `SELECT COUNT(*) as count FROM ${tier.from} WHERE ${tier.where}`
+    ).get(...tier.params) as { count: number }).count;
+    const next = position.offset + consumed;
+    return {
+      results: counted ? { hits, ...counted } : hits,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...dateMetadata,
+        ...metadata,
+        total,
+        next_cursor: next < total ? encodeCursor({ ...position, offset: next }) : null,
+      },
+    };
+  };
+
+  const filters = [resolvedDocId ?? null, input.status ?? null, input.document_type ?? null, asOfDate ?? null];
+
+  // Later pages: the tier recorded in the cursor, from its offset
+  const cursor = decodeCursor(input.cursor, isSearchCursor);
+  if (cursor) {
+    // A cursor from a did-you-mean retry was issued for the corrected query
+    const sameQuery = cursor.query === input.query || cursor.query === suggestCorrection(db, sanitized)?.query;
+    if (!sameQuery || cursor.filters.some((value, i) => value !== filters[i])) {
+      throw new Error(`${INVALID_CURSOR_MESSAGE} (it was issued for a different query or filters)`);
+    }
+    const tier = cursor.tier === 'like' ? likeTier(cursor.variant) : ftsTier(cursor.variant, cursor.tier === 'stemmed');
+    return respond(tier, fetchPage(tier, cursor.offset), cursor, cursor.strategy ? { query_strategy: cursor.strategy } : {});
+  }
+
+  for (const { query: ftsQuery, stemmed } of queryVariants) {
+    const tier = ftsTier(ftsQuery, stemmed);
+    let rows: SearchLegislationResult[];
     try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
-      if (rows.length > 0) {
-        queryStrategy = ftsQuery === queryVariants[0] ? 'exact' : 'fallback';
-        const deduped = deduplicateResults(rows, limit);
-        return {
-          results: deduped,
-          _metadata: {
-            ...generateResponseMetadata(db),
-            ...(queryStrategy === 'fallback' ? { query_strategy: 'broadened' } : {}),
-          },
-        };
+      rows = fetchPage(tier, 0);
+    } catch (error) {
+      // The query language is checked before it gets here; report what FTS5 still rejects
+      if (structured) {
+        throw new Error(`Query syntax error: ${error instanceof Error ? error.message : String(error)}`);
       }
-    } catch {
       // FTS query syntax error — try next variant
       continue;
     }
+    if (rows.length > 0) {
+      const strategy = stemmed ? 'stemmed' : ftsQuery === queryVariants[0]!.query ? undefined : 'broadened';
+      return respond(
+        tier,
+        rows,
+        { query: input.query, filters, tier: stemmed ? 'stemmed' : 'fts', variant: ftsQuery, strategy, offset: 0 },
+        {
+          ...(strategy ? { query_strategy: strategy } : {}),
+          ...(strategy === 'broadened' ? didYouMean() : {}),
+          ...(expansions.length > 0 && !plainVariants.has(ftsQuery) ? { query_expansions: expansions } : {}),
+        },
+      );
+    }
   }
 
   // LIKE fallback — final tier when FTS5 returns no results
-  {
+  if (!structured) {
     const likePattern = buildLikePattern(sanitizeFtsInput(input.query));
-    let likeSql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        substr(lp.content, 1, 200) as snippet,
-        0 as relevance
-      FROM legal_provisions lp
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.content LIKE ?
-    `;
-    const likeParams: (string | number)[] = [likePattern];
-
-    if (resolvedDocId) {
-      likeSql += ' AND lp.document_id = ?';
-      likeParams.push(resolvedDocId);
-    }
-
-    if (input.status) {
-      likeSql += ' AND ld.status = ?';
-      likeParams.push(input.status);
-    }
-
-    likeSql += ' LIMIT ?';
-    likeParams.push(fetchLimit);
-
+    const tier = likeTier(likePattern);
     try {
-      const rows = db.prepare(likeSql).all(...likeParams) as SearchLegislationResult[];
+      const rows = fetchPage(tier, 0);
       if (rows.length > 0) {
-        return {
-          results: deduplicateResults(rows, limit),
-          _metadata: {
-            ...generateResponseMetadata(db),
-            query_strategy: 'like_fallback',
-          },
-        };
+        return respond(
+          tier,
+          rows,
+          { query: input.query, filters, tier: 'like', variant: likePattern, strategy: 'like_fallback', offset: 0 },
+          { query_strategy: 'like_fallback', ...didYouMean() },
+        );
       }
     } catch {
       // LIKE query failed
     }
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  // Nothing matched: search again with misspelled words corrected from the
+  // vocabulary. Corrected words are all known, so the retry cannot correct again.
+  // The retry starts from its first page; its cursor is issued for the corrected query.
+  const correction = structured ? null : suggestCorrection(db, sanitized);
+  if (correction) {
+    const corrected = await searchLegislation(db, { ...input, query: correction.query, cursor: undefined });
+    return {
+      results: corrected.results,
+      _metadata: {
+        ...corrected._metadata,
+        did_you_mean: correction.query,
+        corrections: correction.corrections,
+        ...((Array.isArray(corrected.results) ? corrected.results : corrected.results.hits).length > 0
+          ? { note: `No matches for "${input.query}"; showing results for "${correction.query}".` }
+          : {}),
+      },
+    };
+  }
+
+  return {
+    results: input.facets ? { hits: [], total: 0, facets: emptyFacets() } : [],
+    _metadata: { ...generateResponseMetadata(db), ...dateMetadata, total: 0, next_cursor: null },
+  };
+}
+
+function emptyFacets(): SearchFacets {
+  return { documents: [], years: [], decades: [], document_types: [], statuses: [] };
 }
 
 /**
  * Deduplicate search results by document_title + provision_ref.
  * Duplicate document IDs (numeric vs slug) cause the same provision to appear twice.
- * Keeps the first (highest-ranked) occurrence.
+ * Keeps the first (highest-ranked) occurrence. `consumed` counts the rows read,
+ * duplicates included, so the next page starts after them.
  */
 function deduplicateResults(
   rows: SearchLegislationResult[],
   limit: number,
-): SearchLegislationResult[] {
+): { hits: SearchLegislationResult[]; consumed: number } {
   const seen = new Set<string>();
-  const deduped: SearchLegislationResult[] = [];
+  const hits: SearchLegislationResult[] = [];
+  let consumed = 0;
   for (const row of rows) {
+    if (hits.length >= limit) break;
+    consumed++;
     const key = `${row.document_title}::${row.provision_ref}`;
     if (seen.has(key)) continue;
     seen.add(key);
-    deduped.push(row);
-    if (deduped.length >= limit) break;
+    hits.push(row);
   }
-  return deduped;
+  return { hits, consumed };
 }
@@ -1,4 +1,14 @@
-export type DocumentType = 'act' | 'legislative_instrument' | 'constitutional_instrument' | 'executive_instrument';
+export type DocumentType =
+  | 'act'
+  | 'legislative_instrument'
+  | 'constitutional_instrument'
+  | 'executive_instrument'
+  | 'constituent_assembly_act'
+  | 'nlc_decree'
+  | 'nrc_decree'
+  | 'smc_decree'
+  | 'afrc_decree'
+  | 'pndc_law';
 export type DocumentStatus = 'in_force' | 'amended' | 'repealed';
 
 export interface LegalDocument {
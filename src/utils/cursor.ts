@@ -0,0 +1,32 @@
+/**
+ * Opaque pagination cursors: base64url JSON naming the position after the
+ * last row returned, so the next page resumes there even if rows were added
+ * before it. Callers pass next_cursor back unchanged.
+ */
+
+export const INVALID_CURSOR_MESSAGE = 'cursor is not valid; pass next_cursor from a previous response unchanged';
+
+export function encodeCursor(position: unknown): string {
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+export function decodeCursor<T>(
+  cursor: string | undefined,
+  isPosition: (value: unknown) => value is T,
+): T | undefined {
+  if (cursor == null || cursor.trim().length === 0) {
+    return undefined;
+  }
+
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor.trim(), 'base64url').toString('utf8'));
+  } catch {
+    throw new Error(INVALID_CURSOR_MESSAGE);
+  }
+
+  if (!isPosition(position)) {
+    throw new Error(INVALID_CURSOR_MESSAGE);
+  }
+  return position;
+}
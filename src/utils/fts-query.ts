@@ -2,9 +2,11 @@
  * FTS5 query helpers for Ghana Law MCP.
  *
  * Handles query sanitization, boolean operator passthrough, stemming,
- * and 6-tier variant generation for SQLite FTS5.
+ * thesaurus expansion, and 6-tier variant generation for SQLite FTS5.
  */
 
+import type { QueryExpansion } from './thesaurus.js';
+
 /** FTS5 boolean operators that should pass through to the engine. */
 const BOOLEAN_OPERATORS = new Set(['AND', 'OR', 'NOT']);
 
@@ -20,6 +22,8 @@ const STEM_SUFFIXES = [
 /**
  * Naive English stemmer: strips a common suffix and returns `stem*`.
  * Returns null if the word is too short (<5 chars) or no suffix matched.
+ * Only for indexes without a porter-stemmed twin; it over-matches
+ * ("government" → `govern*`).
  */
 export function stemWord(word: string): string | null {
   if (word.length < 5) return null;
@@ -39,7 +43,7 @@ export function stemWord(word: string): string | null {
 /**
  * Check whether the input contains FTS5 boolean operators (AND, OR, NOT).
  */
-function containsBooleanOperators(tokens: string[]): boolean {
+export function containsBooleanOperators(tokens: string[]): boolean {
   return tokens.some(t => BOOLEAN_OPERATORS.has(t));
 }
 
@@ -62,12 +66,14 @@ export function sanitizeFtsInput(input: string): string {
   // Standard mode: aggressive strip
   // Preserve trailing * on words (FTS5 prefix search like control*)
   const cleaned = input
-    .replace(/['"(){}[\]^~:@#$%&+=<>|\\/.!?,;]/g, ' ')
+    .replace(/['"(){}[\]^~:@#$%&+=<>|\\/.!?,;`-]/g, ' ')
     .replace(/\*(?!\s|$)/g, ' ')    // strip * unless at end of word
     .replace(/\s+/g, ' ')
     .trim();
 
-  const cleanTokens = cleaned.split(/\s+/).filter(t => t.length > 0 && !BOOLEAN_OPERATORS.has(t));
+  // A lone * is not a word; FTS5 rejects it
+  const cleanTokens = cleaned.split(/\s+/)
+    .filter(t => /[\p{L}\p{N}_]/u.test(t) && !BOOLEAN_OPERATORS.has(t));
   return cleanTokens.join(' ');
 }
 
@@ -83,8 +89,35 @@ export function sanitizeFtsInput(input: string): string {
  * 3. Prefix AND — `term1 AND term2 AND term3*`
  * 4. Stemmed prefix — `stem1* AND stem2* AND stem3*`
  * 5. OR — `term1 OR term2 OR term3`
+ *
+ * With thesaurus expansions, every tier but the exact phrase searches each
+ * expanded term as any of its equivalents: `(license OR "licence") AND fees`.
+ */
+export function buildFtsQueryVariants(sanitized: string, expansions: QueryExpansion[] = []): string[] {
+  return buildVariants(sanitized, expansions, false).map(v => v.query);
+}
+
+/** A query variant and the index it runs against. */
+export interface FtsQueryVariant {
+  query: string;
+  /** Run against the porter-stemmed twin index rather than the plain one */
+  stemmed: boolean;
+}
+
+/**
+ * Variants for tables with a porter-stemmed twin index (provisions_stem_fts).
+ * Tier 4 is the AND query run against the twin, which stems query and text
+ * alike, in place of the naive suffix-stripped prefix query. Boolean queries
+ * run against the plain index, then the stemmed one.
  */
-export function buildFtsQueryVariants(sanitized: string): string[] {
+export function buildStemmedFtsQueryVariants(
+  sanitized: string,
+  expansions: QueryExpansion[] = [],
+): FtsQueryVariant[] {
+  return buildVariants(sanitized, expansions, true);
+}
+
+function buildVariants(sanitized: string, expansions: QueryExpansion[], stemmedIndex: boolean): FtsQueryVariant[] {
   if (!sanitized || sanitized.trim().length === 0) {
     return [];
   }
@@ -94,9 +127,18 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
 
   // Boolean passthrough: return as single variant for FTS5 to handle
   if (containsBooleanOperators(tokens)) {
-    return [sanitized];
+    return [
+      { query: sanitized, stemmed: false },
+      ...(stemmedIndex ? [{ query: sanitized, stemmed: true }] : []),
+    ];
   }
 
+  const equivalents = new Map(expansions.map(e => [e.term.toLowerCase(), e.expanded_to]));
+  const expand = (token: string, term: string = token): string => {
+    const alternatives = equivalents.get(token.toLowerCase());
+    return alternatives ? `(${[term, ...alternatives.map(a => `"${a}"`)].join(' OR ')})` : term;
+  };
+
   const variants: string[] = [];
 
   // Tier 1: Exact phrase (multi-word only)
@@ -105,32 +147,40 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
   }
 
   // Tier 2: AND query
-  variants.push(tokens.join(' AND '));
+  const andQuery = tokens.map(t => expand(t)).join(' AND ');
+  variants.push(andQuery);
 
   // Tier 3: Prefix AND (wildcard on last term, or single term)
   const firstToken = tokens[0];
   const lastToken = tokens[tokens.length - 1];
   if (tokens.length === 1 && firstToken && firstToken.length >= 3) {
-    variants.push(`${firstToken}*`);
+    variants.push(expand(firstToken, `${firstToken}*`));
   } else if (tokens.length > 1 && lastToken) {
-    const prefixTerms = [...tokens.slice(0, -1), `${lastToken}*`];
+    const prefixTerms = [...tokens.slice(0, -1).map(t => expand(t)), expand(lastToken, `${lastToken}*`)];
     variants.push(prefixTerms.join(' AND '));
   }
 
-  // Tier 4: Stemmed prefix (all terms stemmed with wildcards)
-  const stemmed = tokens.map(t => stemWord(t) ?? `${t}*`);
-  const stemmedQuery = stemmed.join(' AND ');
-  // Only add if different from tier 3
-  if (!variants.includes(stemmedQuery)) {
-    variants.push(stemmedQuery);
+  // Tier 4: Stemmed — the AND query on the stemmed index, or all terms
+  // naively stemmed with wildcards
+  let stemmedVariant: FtsQueryVariant | undefined;
+  if (stemmedIndex) {
+    stemmedVariant = { query: andQuery, stemmed: true };
+  } else {
+    const stemmedQuery = tokens.map(t => expand(t, stemWord(t) ?? `${t}*`)).join(' AND ');
+    // Only add if different from tier 3
+    if (!variants.includes(stemmedQuery)) {
+      stemmedVariant = { query: stemmedQuery, stemmed: false };
+    }
   }
 
   // Tier 5: OR query (broadest FTS5 variant)
-  if (tokens.length > 1) {
-    variants.push(tokens.join(' OR '));
-  }
+  const orQuery = tokens.length > 1 ? tokens.map(t => expand(t)).join(' OR ') : undefined;
 
-  return variants;
+  return [
+    ...variants.map(query => ({ query, stemmed: false })),
+    ...(stemmedVariant ? [stemmedVariant] : []),
+    ...(orQuery ? [{ query: orQuery, stemmed: false }] : []),
+  ];
 }
 
 /**
@@ -3,6 +3,8 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import type { QueryExpansion } from './thesaurus.js';
+import type { QueryCorrection } from './trigram.js';
 
 export interface ResponseMetadata {
   data_freshness: string;
@@ -10,6 +12,16 @@ export interface ResponseMetadata {
   source_authority: string;
   note?: string;
   query_strategy?: string;
+  as_of_date?: string;
+  /** Thesaurus equivalents searched alongside the query's own words */
+  query_expansions?: QueryExpansion[];
+  /** The query with misspelled words corrected, when it did not match as typed */
+  did_you_mean?: string;
+  corrections?: QueryCorrection['corrections'];
+  /** Matches in the tier that produced the results, across all pages */
+  total?: number;
+  /** Pass as cursor for the next page; null on the last page */
+  next_cursor?: string | null;
 }
 
 export interface ToolResponse<T> {
@@ -0,0 +1,28 @@
+/**
+ * Provision reference normalisation shared by the citator tools.
+ *
+ * Tool inputs arrive as "12", "s12", "Section 12" or a pinpoint such as
+ * "12(1)(a)"; the database stores the "s12" / "s12(1)(a)" form.
+ */
+
+/** "s5(2)", "Section 5(2)", "5(2)": section number, pinpoint */
+export const PINPOINT_REF = /^(?:s(?:ection)?\.?)?\s*(\d+[A-Z]?)((?:\(\w+\))*)$/i;
+
+/**
+ * Normalise a provision_ref input to the stored form, keeping any pinpoint:
+ * "12(1)(a)" → "s12(1)(a)". Refs that are not sections ("sch1", "Part II")
+ * are lowercased.
+ */
+export function normalizeProvisionRef(ref: string | undefined): string | null {
+  if (!ref || ref.trim().length === 0) return null;
+  const trimmed = ref.trim();
+  const pinpoint = trimmed.match(PINPOINT_REF);
+  return pinpoint
+    ? `s${pinpoint[1]!.toUpperCase()}${pinpoint[2]!.toLowerCase()}`
+    : trimmed.toLowerCase();
+}
+
+/** The section a normalised ref belongs to: "s12(1)(a)" → "s12". */
+export function sectionOfProvisionRef(ref: string): string {
+  return ref.replace(/\(.*$/, '');
+}
@@ -0,0 +1,82 @@
+/**
+ * Point-in-time provision versions for Ghana Law MCP.
+ *
+ * provision_versions mirrors legal_provisions with a validity period per
+ * GhanaLII expression (eng@DATE). Tools switch to it when as_of_date is set
+ * and the text has history; otherwise they answer from the current text and
+ * say so in a note.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+type Db = InstanceType<typeof Database>;
+
+/**
+ * SQL predicate selecting the version valid on a date, for a provision table
+ * aliased `lp`. Binds the date twice.
+ */
+export const AS_OF_VERSION_FILTER = '(lp.valid_from <= ? AND (lp.valid_to IS NULL OR lp.valid_to > ?))';
+
+export const AS_OF_UNAVAILABLE_NOTE =
+  'as_of_date ignored: this database records no historical text. Results reflect the current text, which may post-date that date.';
+
+export const AS_OF_NO_HISTORY_NOTE =
+  'as_of_date ignored: no historical text of this document is recorded. Results reflect the current text, which may post-date that date.';
+
+/**
+ * Whether point-in-time provision versions can answer a dated query (schema v4+).
+ * The build writes versions only when some document has an earlier expression,
+ * and a document with a single expression has no text from before it; with a
+ * documentId, the check is for that document alone.
+ */
+export function hasProvisionVersions(db: Db, documentId?: string): boolean {
+  try {
+    if (documentId === undefined) {
+      return db.prepare('SELECT 1 FROM provision_versions LIMIT 1').get() !== undefined;
+    }
+    const row = db.prepare(
+      'SELECT COUNT(DISTINCT expression_date) AS expressions FROM provision_versions WHERE document_id = ?',
+    ).get(documentId) as { expressions: number } | undefined;
+    return (row?.expressions ?? 0) > 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tables to query for provisions: current text, or versions when a date applies.
+ * stemmedFts is the porter-stemmed twin of fts.
+ */
+export function provisionTables(useVersions: boolean): { provisions: string; fts: string; stemmedFts: string } {
+  return useVersions
+    ? { provisions: 'provision_versions', fts: 'provision_versions_fts', stemmedFts: 'provision_versions_stem_fts' }
+    : { provisions: 'legal_provisions', fts: 'provisions_fts', stemmedFts: 'provisions_stem_fts' };
+}
+
+/**
+ * Whether a porter-stemmed FTS index exists (schema v15+).
+ */
+export function hasStemmedIndex(db: Db, table: string): boolean {
+  try {
+    const row = db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?",
+    ).get(table);
+    return row !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Column giving document order for a provision table aliased `lp`: the
+ * ordinal (schema v12+), or the row id on older databases, which were
+ * inserted in document order.
+ */
+export function provisionOrderColumn(db: Db, table: string): string {
+  try {
+    db.prepare(`SELECT ordinal FROM ${table} LIMIT 0`).all();
+    return 'lp.ordinal';
+  } catch {
+    return 'lp.id';
+  }
+}
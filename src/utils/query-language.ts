@@ -0,0 +1,336 @@
+/**
+ * Search query language for search_legislation.
+ *
+ * Queries that use operators are parsed into an AST, checked, and compiled to
+ * an FTS5 expression in which every word is quoted, so nothing but this syntax
+ * reaches the engine:
+ *
+ *   penalty unit                        all words (AND is implied)
+ *   "data controller"                   phrase
+ *   licen*  "data contr"*               prefix
+ *   licence OR permit, fees NOT levy    AND, OR, NOT in capitals
+ *   (licence OR permit) AND fees        grouping
+ *   Minister NEAR/5 regulations         within 5 words of each other; NEAR alone is 10
+ *   NEAR(Minister regulations, 5)       the same, FTS5 style
+ *   title:penalty  content:"data subject"  title:(offence OR penalty)
+ *
+ * NOT binds tighter than AND, and AND tighter than OR, as in FTS5.
+ * Mistakes are reported with their position instead of being sent to FTS5.
+ */
+
+export type QueryField = 'title' | 'content';
+
+/** A word (one entry in words) or phrase, optionally as a prefix. */
+export interface PhraseNode {
+  type: 'phrase';
+  words: string[];
+  prefix: boolean;
+  field?: QueryField;
+}
+
+export interface NearNode {
+  type: 'near';
+  operands: PhraseNode[];
+  distance: number;
+  field?: QueryField;
+}
+
+export type QueryNode =
+  | PhraseNode
+  | NearNode
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; include: QueryNode; exclude: QueryNode };
+
+const FIELDS = new Set<string>(['title', 'content']);
+const OPERATORS = new Set(['AND', 'OR', 'NOT']);
+/** FTS5's default NEAR distance */
+const DEFAULT_NEAR_DISTANCE = 10;
+const MAX_NEAR_DISTANCE = 100;
+
+type Token =
+  | { kind: 'phrase'; words: string[]; prefix: boolean; at: number }
+  | { kind: 'field'; field: QueryField; at: number }
+  | { kind: 'operator'; operator: 'AND' | 'OR' | 'NOT'; at: number }
+  | { kind: 'near'; distance: number | undefined; at: number }
+  | { kind: 'near('; at: number }
+  | { kind: '(' | ')' | ','; at: number }
+  | { kind: 'end'; at: number };
+
+function syntaxError(at: number, detail: string): Error {
+  return new Error(`Query syntax error at character ${at + 1}: ${detail}`);
+}
+
+/**
+ * Whether a query needs the query language: NEAR, a title: or content: field,
+ * grouping parentheses or a trailing * prefix. Phrases and AND, OR, NOT alone
+ * are left to the plain search, which handles them with its broader tiers.
+ * A pinpoint like "1(2)" is not grouping.
+ */
+export function usesQuerySyntax(query: string): boolean {
+  return query.split(/\s+/).some(token =>
+    /^\(*NEAR(\/\d+)?$|^\(*NEAR\(/.test(token)
+    || /^\(*(title|content):/i.test(token)
+    || /^\(|^[^(]*\)$/.test(token)
+    || token.endsWith('*'));
+}
+
+/** Words of a bare or quoted run of text, as FTS5's unicode61 tokenizer would see them. */
+function splitWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}_]+/u).filter(w => w.length > 0);
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: ch, at: i });
+      i++;
+    } else if (ch === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close < 0) throw syntaxError(i, 'this quote is never closed');
+      const words = splitWords(query.slice(i + 1, close));
+      if (words.length === 0) throw syntaxError(i, 'the quoted phrase has no words in it');
+      const prefix = query[close + 1] === '*';
+      tokens.push({ kind: 'phrase', words, prefix, at: i });
+      i = close + (prefix ? 2 : 1);
+    } else {
+      const match = /^[^\s"(),]+/.exec(query.slice(i))!;
+      const word = match[0];
+      const field = /^([A-Za-z]+):/.exec(word);
+      if (field) {
+        const name = field[1]!.toLowerCase();
+        if (!FIELDS.has(name)) {
+          throw syntaxError(i, `unknown field "${field[1]}:"; use title: or content:`);
+        }
+        tokens.push({ kind: 'field', field: name as QueryField, at: i });
+        i += field[0].length;
+        continue;
+      }
+
+      if (OPERATORS.has(word)) {
+        tokens.push({ kind: 'operator', operator: word as 'AND' | 'OR' | 'NOT', at: i });
+      } else if (word === 'NEAR' && query[i + word.length] === '(') {
+        tokens.push({ kind: 'near(', at: i });
+        i++; // the opening parenthesis belongs to NEAR(
+      } else if (/^NEAR(\/|$)/.test(word)) {
+        const distance = /^NEAR(?:\/(\d+))?$/.exec(word);
+        if (!distance) throw syntaxError(i, `"${word}" is not a valid NEAR; write NEAR or NEAR/5`);
+        tokens.push({ kind: 'near', distance: distance[1] === undefined ? undefined : Number(distance[1]), at: i });
+      } else {
+        const prefix = word.endsWith('*');
+        const text = word.replace(/\*+$/, '');
+        if (text.includes('*')) throw syntaxError(i, `* can only end a word, as in licen*`);
+        const words = splitWords(text);
+        // Punctuation on its own ("-", "&") is not searchable; skip it
+        if (words.length > 0) tokens.push({ kind: 'phrase', words, prefix, at: i });
+      }
+      i += word.length;
+    }
+  }
+  tokens.push({ kind: 'end', at: query.length });
+  return tokens;
+}
+
+function checkDistance(distance: number, at: number): number {
+  if (distance > MAX_NEAR_DISTANCE) {
+    throw syntaxError(at, `NEAR distance ${distance} is more than ${MAX_NEAR_DISTANCE}`);
+  }
+  return distance;
+}
+
+/** Scope every word of a node to a field; a word already scoped differently is an error. */
+function applyField(node: QueryNode, field: QueryField, at: number): QueryNode {
+  switch (node.type) {
+    case 'phrase':
+    case 'near':
+      if (node.field && node.field !== field) {
+        throw syntaxError(at, `${field}: cannot contain ${node.field}:`);
+      }
+      return { ...node, field };
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(child => applyField(child, field, at)) };
+    case 'not':
+      return { ...node, include: applyField(node.include, field, at), exclude: applyField(node.exclude, field, at) };
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind === ')') throw syntaxError(next.at, 'this ) has no matching (');
+    if (next.kind !== 'end') throw syntaxError(next.at, 'unexpected input');
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private isOperator(operator: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.operator === operator;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.isOperator('OR')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0]! : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      // Commas between words are ignored, as in plain queries
+      while (this.peek().kind === ',') this.next();
+      const token = this.peek();
+      if (token.kind === 'end' || token.kind === ')' || this.isOperator('OR')) break;
+      if (this.isOperator('AND')) this.next();
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0]! : { type: 'and', children };
+  }
+
+  private parseNot(): QueryNode {
+    let node = this.parseNear();
+    while (this.isOperator('NOT')) {
+      this.next();
+      node = { type: 'not', include: node, exclude: this.parseNear() };
+    }
+    return node;
+  }
+
+  /** Infix NEAR: `a NEAR/5 b NEAR/5 c` is one group. */
+  private parseNear(): QueryNode {
+    const first = this.parsePrimary();
+    if (this.peek().kind !== 'near') return first;
+
+    const operands = [this.nearOperand(first, this.peek().at)];
+    let distance: number | undefined;
+    while (this.peek().kind === 'near') {
+      const near = this.next() as Extract<Token, { kind: 'near' }>;
+      const at = this.peek().at;
+      if (near.distance !== undefined) {
+        if (distance !== undefined && distance !== near.distance) {
+          throw syntaxError(near.at, 'chained NEARs must use the same distance');
+        }
+        distance = checkDistance(near.distance, near.at);
+      }
+      operands.push(this.nearOperand(this.parsePrimary(), at));
+    }
+    return { type: 'near', operands, distance: distance ?? DEFAULT_NEAR_DISTANCE };
+  }
+
+  private nearOperand(node: QueryNode, at: number): PhraseNode {
+    if (node.type !== 'phrase') {
+      throw syntaxError(at, 'NEAR joins words or quoted phrases, not groups or other NEARs');
+    }
+    if (node.field) {
+      throw syntaxError(at, `put ${node.field}: before the whole NEAR, as in ${node.field}:(a NEAR/5 b)`);
+    }
+    return node;
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+    switch (token.kind) {
+      case 'phrase':
+        return { type: 'phrase', words: token.words, prefix: token.prefix };
+      case 'field':
+        if (this.peek().kind === 'end') throw syntaxError(token.at, `${token.field}: needs a word, phrase or group after it`);
+        return applyField(this.parsePrimary(), token.field, token.at);
+      case '(': {
+        if (this.peek().kind === ')') throw syntaxError(token.at, 'empty parentheses');
+        const node = this.parseOr();
+        if (this.peek().kind !== ')') throw syntaxError(token.at, 'this ( is never closed');
+        this.next();
+        return node;
+      }
+      case 'near(':
+        return this.parseNearCall(token.at);
+      case 'operator':
+        throw syntaxError(token.at, `${token.operator} needs a word or phrase before and after it`);
+      case 'near':
+        throw syntaxError(token.at, 'NEAR needs a word or phrase before and after it');
+      case ')':
+        throw syntaxError(token.at, 'this ) has no matching (');
+      case ',':
+        throw syntaxError(token.at, 'unexpected comma');
+      case 'end':
+        throw syntaxError(token.at, 'the query ends where a word or phrase was expected');
+    }
+  }
+
+  /** `NEAR(a "b c" d, 5)`; the distance is optional. */
+  private parseNearCall(at: number): NearNode {
+    const operands: PhraseNode[] = [];
+    let distance = DEFAULT_NEAR_DISTANCE;
+    for (;;) {
+      const token = this.next();
+      if (token.kind === 'phrase') {
+        operands.push({ type: 'phrase', words: token.words, prefix: token.prefix });
+      } else if (token.kind === ',') {
+        const value = this.next();
+        if (value.kind !== 'phrase' || value.prefix || value.words.length !== 1 || !/^\d+$/.test(value.words[0]!)) {
+          throw syntaxError(value.at, 'NEAR( expects a distance after the comma, as in NEAR(a b, 5)');
+        }
+        distance = checkDistance(Number(value.words[0]), value.at);
+        if (this.next().kind !== ')') throw syntaxError(at, 'this NEAR( is never closed');
+        break;
+      } else if (token.kind === ')') {
+        break;
+      } else if (token.kind === 'end') {
+        throw syntaxError(at, 'this NEAR( is never closed');
+      } else {
+        throw syntaxError(token.at, 'NEAR( takes only words and quoted phrases');
+      }
+    }
+    if (operands.length < 2) throw syntaxError(at, 'NEAR needs at least two words or phrases');
+    return { type: 'near', operands, distance };
+  }
+}
+
+/** Parse a query, throwing an Error that names the position of the first mistake. */
+export function parseSearchQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  if (tokens.length === 1) throw syntaxError(0, 'the query has no words to search for');
+  return new Parser(tokens).parse();
+}
+
+function compilePhrase(node: PhraseNode): string {
+  return `"${node.words.join(' ')}"${node.prefix ? ' *' : ''}`;
+}
+
+/** Compile to an FTS5 MATCH expression over the (content, title) index columns. */
+export function compileSearchQuery(node: QueryNode): string {
+  const group = (child: QueryNode) =>
+    child.type === 'phrase' || child.type === 'near' ? compileSearchQuery(child) : `(${compileSearchQuery(child)})`;
+  switch (node.type) {
+    case 'phrase':
+      return `${node.field ? `${node.field} : ` : ''}${compilePhrase(node)}`;
+    case 'near':
+      return `${node.field ? `${node.field} : ` : ''}NEAR(${node.operands.map(compilePhrase).join(' ')}, ${node.distance})`;
+    case 'and':
+      return node.children.map(group).join(' AND ');
+    case 'or':
+      return node.children.map(group).join(' OR ');
+    case 'not':
+      return `${group(node.include)} NOT ${group(node.exclude)}`;
+  }
+}
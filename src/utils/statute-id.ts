@@ -1,18 +1,29 @@
 /**
  * Statute ID resolution for Ghana Law MCP.
  *
- * 9-step resolution cascade with shortest-match ranking.
+ * 10-step resolution cascade with shortest-match ranking.
  * Resolves fuzzy document references (titles, Act names, chapter numbers)
  * to database document IDs.
  */
 
-import type Database from '@ansvar/mcp-sqlite';
+import type { DocumentType } from '../types/index.js';
+import { fuzzyTitleMatch } from './trigram.js';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-type Db = InstanceType<typeof Database>;
+/**
+ * The part of a SQLite handle the resolvers use. The server's
+ * @ansvar/mcp-sqlite Database and better-sqlite3 in scripts/build-db.ts both
+ * satisfy it, so the build resolves citations with the runtime logic.
+ */
+export interface StatuteDb {
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
 
 interface DocRow {
   id: string;
@@ -20,6 +31,12 @@ interface DocRow {
   short_name: string | null;
 }
 
+/** A resolved document ID; fuzzy when only the trigram title match (step 9) found it. */
+export interface DocumentResolution {
+  id: string;
+  fuzzy: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Abbreviation map (Step 2) — add entries as needed
 // ---------------------------------------------------------------------------
@@ -28,6 +45,29 @@ const ABBREVIATIONS: Record<string, string> = {
   // Example: 'DPA': 'data-protection-act-2019',
 };
 
+// ---------------------------------------------------------------------------
+// Series citations (Step 3b) — "(Act 843)", "(L.I. 2409)", "PNDCL 152"
+// ---------------------------------------------------------------------------
+
+const SERIES_CITATION = new RegExp(
+  String.raw`^\(?(Act|L\.?\s*I\.?|C\.?\s*I\.?|E\.?\s*I\.?|C\.?\s*A\.?|N\.?\s*L\.?\s*C\.?\s*D\.?|N\.?\s*R\.?\s*C\.?\s*D\.?|S\.?\s*M\.?\s*C\.?\s*D\.?|A\.?\s*F\.?\s*R\.?\s*C\.?\s*D\.?|P\.?\s*N\.?\s*D\.?\s*C\.?\s*L\.?)` +
+  String.raw`\s*(\d+)\)?(?:\s*(?:of|,)?\s*(\d{4}))?$`,
+  'i',
+);
+
+const SERIES_TYPES: Record<string, DocumentType> = {
+  ACT: 'act',
+  LI: 'legislative_instrument',
+  CI: 'constitutional_instrument',
+  EI: 'executive_instrument',
+  CA: 'constituent_assembly_act',
+  NLCD: 'nlc_decree',
+  NRCD: 'nrc_decree',
+  SMCD: 'smc_decree',
+  AFRCD: 'afrc_decree',
+  PNDCL: 'pndc_law',
+};
+
 // ---------------------------------------------------------------------------
 // Caches (lazy singletons, reset per test run)
 // ---------------------------------------------------------------------------
@@ -64,7 +104,7 @@ function normalizePunctuation(s: string): string {
 /**
  * Load all documents into the in-memory cache (lazy, once per process).
  */
-function getAllDocs(db: Db): DocRow[] {
+function getAllDocs(db: StatuteDb): DocRow[] {
   if (!allDocsCache) {
     allDocsCache = db.prepare(
       'SELECT id, title, short_name FROM legal_documents',
@@ -77,7 +117,7 @@ function getAllDocs(db: Db): DocRow[] {
  * Build a chapter-number → document_id map from s1 provision content.
  * Parses patterns like "[Chapter 39]" or "[Chapter 39:2]".
  */
-function getChapterLookup(db: Db): Map<string, string> {
+function getChapterLookup(db: StatuteDb): Map<string, string> {
   if (!chapterLookup) {
     chapterLookup = new Map();
     const rows = db.prepare(
@@ -95,7 +135,7 @@ function getChapterLookup(db: Db): Map<string, string> {
 }
 
 // ---------------------------------------------------------------------------
-// Main resolution function — 9-step cascade
+// Main resolution function — 10-step cascade
 // ---------------------------------------------------------------------------
 
 /**
@@ -104,22 +144,67 @@ function getChapterLookup(db: Db): Map<string, string> {
  * Steps:
  * 1. Direct ID match
  * 2. Abbreviation map
- * 3. Chapter number lookup
+ * 3. Chapter number lookup, then series number ("Act 843", "L.I. 2409")
  * 4. Exact title match (case-insensitive), then with trailing year stripped
  * 5. Shortest LIKE match on title
  * 6. Case-insensitive shortest LIKE on title
  * 7. Short-name LIKE (case-insensitive)
  * 8. Punctuation-normalized full scan (shortest match)
- * 9. Return null
+ * 9. Trigram match on title, for misspellings ("Anti-Money Laundring Act")
+ * 10. Return null
  */
 export function resolveDocumentId(
-  db: Db,
+  db: StatuteDb,
   input: string,
 ): string | null {
+  return resolveDocument(db, input)?.id ?? null;
+}
+
+/**
+ * resolveDocumentId, also saying whether the match was fuzzy. A fuzzy match
+ * can answer from a different statute than the one meant ("Securities Act"
+ * resolves to the Securities Industry Act, 2016), so tools report it.
+ */
+export function resolveDocument(
+  db: StatuteDb,
+  input: string,
+): DocumentResolution | null {
   if (!input || typeof input !== 'string') return null;
   const trimmed = input.trim();
   if (!trimmed) return null;
 
+  const exact = resolveExactly(db, trimmed);
+  if (exact) return { id: exact, fuzzy: false };
+
+  // -----------------------------------------------------------------------
+  // Step 9 — Trigram match on title (misspellings)
+  // -----------------------------------------------------------------------
+  const fuzzyMatch = fuzzyTitleMatch(db, trimmed);
+  if (fuzzyMatch) return { id: fuzzyMatch, fuzzy: true };
+
+  // -----------------------------------------------------------------------
+  // Step 10 — No match
+  // -----------------------------------------------------------------------
+  return null;
+}
+
+/**
+ * Note for a document_id only a fuzzy title match resolved, naming the
+ * statute that answered.
+ */
+export function fuzzyResolutionNote(input: string, id: string, title: string): string {
+  return `"${input.trim()}" resolved by fuzzy title match to ${title} (${id}); check this is the statute meant.`;
+}
+
+/** Title of a resolved document, for reporting a fuzzy match. */
+export function documentTitle(db: StatuteDb, id: string): string {
+  const row = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(id) as { title: string } | undefined;
+  return row?.title ?? id;
+}
+
+/** Steps 1–8 of the cascade: every match short of a fuzzy one. */
+function resolveExactly(db: StatuteDb, trimmed: string): string | null {
+
   // -----------------------------------------------------------------------
   // Step 1 — Direct ID match
   // -----------------------------------------------------------------------
@@ -144,6 +229,17 @@ export function resolveDocumentId(
     if (chapResult) return chapResult;
   }
 
+  // Step 3b — Series number (e.g., "Act 843", "L.I. 2409", "CI 97 of 2016", "PNDCL 152")
+  const seriesMatch = trimmed.match(SERIES_CITATION);
+  if (seriesMatch) {
+    const type = SERIES_TYPES[seriesMatch[1]!.replace(/[.\s]/g, '').toUpperCase()];
+    const year = seriesMatch[3] ? Number.parseInt(seriesMatch[3], 10) : undefined;
+    const seriesResult = type
+      ? resolveInstrumentNumber(db, type, Number.parseInt(seriesMatch[2]!, 10), year)
+      : null;
+    if (seriesResult) return seriesResult;
+  }
+
   // -----------------------------------------------------------------------
   // Step 4 — Exact title match (case-insensitive)
   // -----------------------------------------------------------------------
@@ -208,12 +304,66 @@ export function resolveDocumentId(
     return puncMatches[0]!.id;
   }
 
-  // -----------------------------------------------------------------------
-  // Step 9 — No match
-  // -----------------------------------------------------------------------
   return null;
 }
 
+/**
+ * Resolve an Act number, as cited in "(Act 843)", to a document ID.
+ *
+ * Act numbers restart across republics, so when a year is given it must match.
+ * Without a year, an Act number shared by several documents is ambiguous → null.
+ */
+export function resolveActNumber(
+  db: StatuteDb,
+  actNumber: number,
+  year?: number,
+): string | null {
+  return resolveInstrumentNumber(db, 'act', actNumber, year);
+}
+
+/**
+ * Resolve a number within a series — "(L.I. 2409)", "(C.I. 97)" — to a document ID.
+ * Same rules as resolveActNumber: the year must match when given.
+ */
+export function resolveInstrumentNumber(
+  db: StatuteDb,
+  type: DocumentType,
+  number: number,
+  year?: number,
+): string | null {
+  const candidates = instrumentNumberCandidates(db, type, number, year);
+  if (year !== undefined) {
+    return candidates[0] ?? null;
+  }
+  return candidates.length === 1 ? candidates[0]! : null;
+}
+
+/**
+ * Every document a series number could mean — "Act 11" is both
+ * act-11-1960 and act-11-1995. More than one candidate means the reference
+ * is ambiguous without a year. Empty for inputs that are not series numbers.
+ */
+export function seriesNumberCandidates(db: StatuteDb, input: string): string[] {
+  const seriesMatch = input.trim().match(SERIES_CITATION);
+  const type = seriesMatch ? SERIES_TYPES[seriesMatch[1]!.replace(/[.\s]/g, '').toUpperCase()] : undefined;
+  if (!seriesMatch || !type) return [];
+  const year = seriesMatch[3] ? Number.parseInt(seriesMatch[3], 10) : undefined;
+  return instrumentNumberCandidates(db, type, Number.parseInt(seriesMatch[2]!, 10), year);
+}
+
+/** Documents numbered `number` in a series, restricted to `year` when given. */
+export function instrumentNumberCandidates(
+  db: StatuteDb,
+  type: DocumentType,
+  number: number,
+  year?: number,
+): string[] {
+  const rows = db.prepare(
+    'SELECT id, year FROM legal_documents WHERE type = ? AND act_number = ? ORDER BY year',
+  ).all(type, number) as { id: string; year: number }[];
+  return rows.filter(r => year === undefined || r.year === year).map(r => r.id);
+}
+
 // ---------------------------------------------------------------------------
 // Legacy compatibility — some repos import these older function names.
 // ---------------------------------------------------------------------------
@@ -222,12 +372,12 @@ export function resolveDocumentId(
 export const resolveExistingStatuteId = resolveDocumentId;
 
 /** @deprecated Use resolveDocumentId(db, id) !== null instead. */
-export function isValidStatuteId(db: Db, id: string): boolean {
+export function isValidStatuteId(db: StatuteDb, id: string): boolean {
   return resolveDocumentId(db, id) !== null;
 }
 
 /** @deprecated Return candidate IDs for a query (compat shim). */
-export function statuteIdCandidates(db: Db, input: string): string[] {
+export function statuteIdCandidates(db: StatuteDb, input: string): string[] {
   const resolved = resolveDocumentId(db, input);
   return resolved ? [resolved] : [];
 }
@@ -0,0 +1,94 @@
+/**
+ * TF-IDF term vectors for provision similarity.
+ *
+ * build-db.ts weights each provision's terms by (1 + log tf) · idf, keeps the
+ * strongest, normalises to unit length and stores them in provision_vectors;
+ * find_similar_provisions ranks provisions by cosine similarity against them.
+ */
+
+/** Terms kept per provision; the tail carries little of the cosine. */
+export const MAX_VECTOR_TERMS = 64;
+
+/** Words too common in statutes to say anything about a provision's subject. */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had',
+  'not', 'but', 'nor', 'its', 'his', 'her', 'their', 'them', 'they', 'this', 'that',
+  'these', 'those', 'with', 'within', 'without', 'from', 'into', 'onto', 'upon', 'under',
+  'over', 'than', 'then', 'there', 'where', 'which', 'who', 'whom', 'whose', 'what',
+  'when', 'while', 'any', 'all', 'each', 'every', 'other', 'such', 'same', 'may', 'shall',
+  'must', 'will', 'would', 'could', 'should', 'can', 'does', 'did', 'done', 'also',
+  'only', 'after', 'before', 'between', 'against', 'about', 'above', 'below',
+  'per', 'via', 'both', 'either', 'neither', 'whether', 'however', 'unless', 'until',
+  'subsection', 'section', 'paragraph', 'subparagraph', 'act', 'person', 'made',
+  'make', 'provided', 'provision', 'provisions', 'accordance', 'purpose', 'purposes',
+]);
+
+/**
+ * Lower-cased content words of a text, in order: letters only, at least three
+ * long, stopwords dropped. British and American spellings stay distinct.
+ */
+export function vectorTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+  return words
+    .map(word => word.replace(/'s$/, '').replace(/'/g, ''))
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word));
+}
+
+/** Term id → weight, unit length. */
+export type TermVector = Map<number, number>;
+
+/**
+ * Weight term counts by (1 + log tf) · idf, keep the `maxTerms` strongest and
+ * normalise. Terms without an idf (unknown to the corpus) are dropped.
+ */
+export function weightTerms(
+  terms: string[],
+  idf: (term: string) => { id: number; idf: number } | undefined,
+  maxTerms = MAX_VECTOR_TERMS,
+): TermVector {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+  const weighted: [number, number][] = [];
+  for (const [term, count] of counts) {
+    const entry = idf(term);
+    if (entry && entry.idf > 0) weighted.push([entry.id, (1 + Math.log(count)) * entry.idf]);
+  }
+  weighted.sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+  const kept = weighted.slice(0, maxTerms);
+
+  const norm = Math.sqrt(kept.reduce((sum, [, w]) => sum + w * w, 0));
+  return new Map(norm > 0 ? kept.map(([id, w]) => [id, w / norm]) : []);
+}
+
+/** Pack as little-endian (uint32 term id, float32 weight) pairs. */
+export function encodeVector(vector: TermVector): Buffer {
+  const buffer = Buffer.alloc(vector.size * 8);
+  let offset = 0;
+  for (const [id, weight] of vector) {
+    buffer.writeUInt32LE(id, offset);
+    buffer.writeFloatLE(weight, offset + 4);
+    offset += 8;
+  }
+  return buffer;
+}
+
+export function decodeVector(blob: Uint8Array): TermVector {
+  const buffer = Buffer.from(blob.buffer, blob.byteOffset, blob.byteLength);
+  const vector: TermVector = new Map();
+  for (let offset = 0; offset + 8 <= buffer.length; offset += 8) {
+    vector.set(buffer.readUInt32LE(offset), buffer.readFloatLE(offset + 4));
+  }
+  return vector;
+}
+
+/** Dot product of two unit vectors; iterates the smaller one. */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [id, weight] of small) {
+    const other = large.get(id);
+    if (other !== undefined) dot += weight * other;
+  }
+  return dot;
+}
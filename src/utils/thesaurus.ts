@@ -0,0 +1,51 @@
+/**
+ * Curated query expansion for search.
+ *
+ * build-db.ts loads data/seed/_thesaurus.json into the thesaurus table:
+ * British and American spellings ("licence"/"license"), Ghanaian statutory
+ * equivalents ("director"/"officer") and acronyms ("NCA" for the National
+ * Communications Authority). Each single-word query term with entries is
+ * searched as any of its equivalents.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { containsBooleanOperators } from './fts-query.js';
+
+export type ThesaurusKind = 'spelling' | 'equivalent' | 'acronym';
+
+export interface QueryExpansion {
+  /** Query term as typed */
+  term: string;
+  /** Lower-case equivalents searched alongside it; may be phrases */
+  expanded_to: string[];
+  kind: ThesaurusKind;
+}
+
+/**
+ * Expansions for the terms of a sanitized query. Boolean queries, prefix
+ * terms (`licen*`) and databases built before the thesaurus get none.
+ */
+export function findQueryExpansions(db: Database, sanitized: string): QueryExpansion[] {
+  const tokens = sanitized.split(/\s+/).filter(t => t.length > 0);
+  if (containsBooleanOperators(tokens)) return [];
+
+  let lookup: ReturnType<Database['prepare']>;
+  try {
+    lookup = db.prepare('SELECT equivalent, kind FROM thesaurus WHERE term = ? ORDER BY equivalent');
+  } catch {
+    // Table doesn't exist — pre-v14 database
+    return [];
+  }
+
+  const expansions: QueryExpansion[] = [];
+  const seen = new Set<string>();
+  for (const token of tokens) {
+    const term = token.toLowerCase();
+    if (term.endsWith('*') || seen.has(term)) continue;
+    seen.add(term);
+    const rows = lookup.all(term) as { equivalent: string; kind: ThesaurusKind }[];
+    if (rows.length === 0) continue;
+    expansions.push({ term: token, expanded_to: rows.map(r => r.equivalent), kind: rows[0]!.kind });
+  }
+  return expansions;
+}
@@ -0,0 +1,169 @@
+/**
+ * Trigram matching for misspelled queries and statute titles.
+ *
+ * build-db.ts indexes the trigrams of every word in provision text
+ * (vocabulary_trigrams) and of every document title (title_trigrams).
+ * Candidates sharing the most trigrams are confirmed by edit distance, so
+ * "cybersecurty" becomes "cybersecurity" and "Anti-Money Laundring Act" finds
+ * the Anti-Money Laundering Act.
+ */
+
+import { containsBooleanOperators } from './fts-query.js';
+import type { StatuteDb as Db } from './statute-id.js';
+
+export interface QueryCorrection {
+  /** The query with each misspelled word replaced */
+  query: string;
+  corrections: { term: string; suggestion: string }[];
+}
+
+/** Shortest word worth correcting; shorter ones have too few trigrams. */
+const MIN_CORRECTABLE_LENGTH = 4;
+const MIN_WORD_SIMILARITY = 0.4;
+const MIN_TITLE_SIMILARITY = 0.6;
+const CANDIDATES = 50;
+
+/**
+ * Trigrams of each word, padded like pg_trgm ("  c", " cy", "cyb", ..., "ty ").
+ * Lower-cased, letters and digits only, without duplicates.
+ */
+export function trigrams(text: string): string[] {
+  const grams = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (!word) continue;
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  }
+  return [...grams];
+}
+
+/** Trigrams of a title, leaving out years so "Act, 2020" and "Act" compare alike. */
+export function titleTrigrams(title: string): string[] {
+  return trigrams(title.replace(/\b\d{4}\b/g, ' '));
+}
+
+/** Shared trigrams over all trigrams of either (Jaccard). */
+function similarity(shared: number, a: number, b: number): number {
+  return shared / (a + b - shared);
+}
+
+/** Edits (insert, delete, substitute, swap adjacent) turning a into b. */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0]![j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let best = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        best = Math.min(best, d[i - 2]![j - 2]! + 1);
+      }
+      d[i]![j] = best;
+    }
+  }
+  return d[a.length]![b.length]!;
+}
+
+/** More edits are tolerated in longer words. */
+function maxEdits(word: string): number {
+  return word.length <= 5 ? 1 : word.length <= 10 ? 2 : 3;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * The vocabulary word a misspelled word most likely meant: fewest edits, then
+ * most widely used. Null for words in the vocabulary, short words, numbers,
+ * and databases built before the trigram index.
+ */
+export function suggestWord(db: Db, word: string): string | null {
+  const lower = word.toLowerCase();
+  if (lower.length < MIN_CORRECTABLE_LENGTH || !/^[a-z]+$/.test(lower)) return null;
+
+  const grams = trigrams(lower);
+  let candidates: { term: string; frequency: number; shared: number }[];
+  try {
+    if (db.prepare('SELECT 1 FROM search_vocabulary WHERE term = ?').get(lower)) return null;
+    candidates = db.prepare(`
+      SELECT v.term, v.frequency, COUNT(*) as shared
+      FROM vocabulary_trigrams t
+      JOIN search_vocabulary v ON v.id = t.term_id
+      WHERE t.trigram IN (${placeholders(grams)})
+      GROUP BY v.id
+      ORDER BY shared DESC, v.frequency DESC
+      LIMIT ?
+    `).all(...grams, CANDIDATES) as { term: string; frequency: number; shared: number }[];
+  } catch {
+    // Tables don't exist — pre-v16 database
+    return null;
+  }
+
+  let best: { term: string; frequency: number; edits: number } | null = null;
+  for (const candidate of candidates) {
+    if (similarity(candidate.shared, grams.length, trigrams(candidate.term).length) < MIN_WORD_SIMILARITY) continue;
+    const edits = editDistance(lower, candidate.term);
+    if (edits > maxEdits(lower)) continue;
+    if (!best || edits < best.edits || (edits === best.edits && candidate.frequency > best.frequency)) {
+      best = { term: candidate.term, frequency: candidate.frequency, edits };
+    }
+  }
+  return best?.term ?? null;
+}
+
+/**
+ * A sanitized query with its misspelled words corrected, or null when every
+ * word is known (or unknown but without a close match). Boolean queries and
+ * prefix terms are left alone.
+ */
+export function suggestCorrection(db: Db, sanitized: string): QueryCorrection | null {
+  const tokens = sanitized.split(/\s+/).filter(t => t.length > 0);
+  if (tokens.length === 0 || containsBooleanOperators(tokens)) return null;
+
+  const corrections: QueryCorrection['corrections'] = [];
+  const corrected = tokens.map(token => {
+    if (token.endsWith('*')) return token;
+    const suggestion = suggestWord(db, token);
+    if (!suggestion) return token;
+    corrections.push({ term: token, suggestion });
+    return suggestion;
+  });
+  return corrections.length > 0 ? { query: corrected.join(' '), corrections } : null;
+}
+
+/**
+ * The document whose title best matches a misspelled one, ignoring years and
+ * punctuation. Only a close match with no equally close rival counts; a year
+ * in the input must agree with the document's.
+ */
+export function fuzzyTitleMatch(db: Db, input: string): string | null {
+  const year = input.match(/\b(1[89]\d\d|20\d\d)\b/)?.[1];
+  const grams = titleTrigrams(input);
+  if (grams.length === 0) return null;
+
+  let candidates: { id: string; title: string; year: number; shared: number }[];
+  try {
+    candidates = db.prepare(`
+      SELECT ld.id, ld.title, ld.year, COUNT(*) as shared
+      FROM title_trigrams t
+      JOIN legal_documents ld ON ld.id = t.document_id
+      WHERE t.trigram IN (${placeholders(grams)})
+      GROUP BY ld.id
+      ORDER BY shared DESC
+      LIMIT ?
+    `).all(...grams, CANDIDATES) as { id: string; title: string; year: number; shared: number }[];
+  } catch {
+    // Table doesn't exist — pre-v16 database
+    return null;
+  }
+
+  const scored = candidates
+    .filter(c => !year || String(c.year) === year)
+    .map(c => ({ id: c.id, score: similarity(c.shared, grams.length, titleTrigrams(c.title).length) }))
+    .sort((a, b) => b.score - a.score);
+  const [first, second] = scored;
+  if (!first || first.score < MIN_TITLE_SIMILARITY) return null;
+  if (second && second.score === first.score) return null;
+  return first.id;
+}